@@ -4,15 +4,24 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresenceSocket } from "@/hooks/usePresenceSocket";
 import Landing from "@/pages/Landing";
 import Home from "@/pages/Home";
 import Game from "@/pages/Game";
 import Leaderboard from "./pages/Leaderboard";
 import Profile from "./pages/Profile";
+import Library from "./pages/Library";
+import Replay from "./pages/Replay";
+import Explorer from "./pages/Explorer";
+import GameSearch from "./pages/GameSearch";
+import Join from "./pages/Join";
+import Watch from "./pages/Watch";
 import NotFound from "./pages/not-found";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  // Opened here rather than per page so moving around doesn't flicker offline
+  usePresenceSocket(isAuthenticated);
 
   return (
     <Switch>
@@ -20,6 +29,7 @@ function Router() {
         <>
           <Route path="/" component={Landing} />
           <Route path="/game/:id" component={Landing} />
+          <Route path="/join/:code" component={Landing} />
         </>
       ) : (
         <>
@@ -27,6 +37,12 @@ function Router() {
           <Route path="/game/:id" component={Game} />
           <Route path="/leaderboard" component={Leaderboard} />
         <Route path="/profile" component={Profile} />
+          <Route path="/library" component={Library} />
+          <Route path="/replay/:id" component={Replay} />
+          <Route path="/explorer" component={Explorer} />
+          <Route path="/games" component={GameSearch} />
+          <Route path="/join/:code" component={Join} />
+          <Route path="/watch" component={Watch} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,256 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Progress } from "./ui/progress";
+import { ScrollArea } from "./ui/scroll-area";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import { Cpu, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AnalyzedMove, GameAnalysis, MoveClassification } from "@shared/schema";
+import { START_FEN, formatMoveNumber, getMoveNumber, isWhitePly } from "@shared/position";
+
+// The graph is cut off at ten pawns either way; beyond that it's just winning
+const GRAPH_LIMIT = 10;
+
+const CLASSIFICATIONS: { [key in MoveClassification]: { symbol: string; label: string; className: string } } = {
+  inaccuracy: { symbol: "?!", label: "Inaccuracies", className: "text-yellow-600" },
+  mistake: { symbol: "?", label: "Mistakes", className: "text-orange-600" },
+  blunder: { symbol: "??", label: "Blunders", className: "text-red-600" },
+};
+
+const chartConfig = {
+  evaluation: {
+    label: "Evaluation",
+    color: "hsl(217, 91%, 60%)",
+  },
+} satisfies ChartConfig;
+
+interface AnalysisPanelProps {
+  gameId: string;
+  startFen?: string;
+  className?: string;
+}
+
+function toPawns(centipawns?: number): number {
+  return Math.max(-GRAPH_LIMIT, Math.min(GRAPH_LIMIT, (centipawns ?? 0) / 100));
+}
+
+function formatEvaluation(centipawns?: number): string {
+  if (centipawns === undefined) return "?";
+  if (Math.abs(centipawns) >= 10000) return centipawns > 0 ? "White mates" : "Black mates";
+  const pawns = centipawns / 100;
+  return `${pawns > 0 ? "+" : ""}${pawns.toFixed(2)}`;
+}
+
+export default function AnalysisPanel({ gameId, startFen = START_FEN, className = "" }: AnalysisPanelProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // 404 until an analysis has been requested
+  const { data: analysis, isLoading } = useQuery<GameAnalysis>({
+    queryKey: ["/api/games", gameId, "analysis"],
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? 2000 : false;
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/games/${gameId}/analysis`);
+      return response.json();
+    },
+    onSuccess: (data: GameAnalysis) => {
+      queryClient.setQueryData(["/api/games", gameId, "analysis"], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request analysis. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReplay = (ply: number) => setLocation(`/replay/${gameId}?ply=${ply}`);
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="h-32 bg-gray-50 rounded-lg animate-pulse" />;
+    }
+
+    if (!analysis || analysis.status === "failed") {
+      return (
+        <div className="text-center py-4">
+          <p className="text-gray-600 mb-4">
+            {analysis?.status === "failed"
+              ? "The last analysis failed. You can try again."
+              : "Let the engine check every move for inaccuracies, mistakes and blunders."}
+          </p>
+          <Button onClick={() => requestMutation.mutate()} disabled={requestMutation.isPending}>
+            <Cpu className="w-4 h-4 mr-2" />
+            Request computer analysis
+          </Button>
+        </div>
+      );
+    }
+
+    if (analysis.status !== "completed") {
+      const percent = Math.round(analysis.progress * 100);
+      return (
+        <div className="py-4 space-y-2">
+          <Progress value={percent} />
+          <p className="text-sm text-gray-600 text-center">
+            {analysis.status === "pending" ? "Waiting for the engine..." : `Analysing... ${percent}%`}
+          </p>
+        </div>
+      );
+    }
+
+    const points = [
+      { ply: 0, label: "Start", evaluation: toPawns(analysis.initialEvaluation), raw: analysis.initialEvaluation },
+      ...analysis.moves.map((move) => ({
+        ply: move.ply,
+        label: `${formatMoveNumber(startFen, move.ply)} ${move.move}`,
+        evaluation: toPawns(move.evaluation),
+        raw: move.evaluation,
+      })),
+    ];
+
+    const flaggedMoves = analysis.moves.filter((move) => move.classification);
+    const countFor = (white: boolean, classification: MoveClassification) =>
+      flaggedMoves.filter((move) => isWhitePly(startFen, move.ply) === white && move.classification === classification).length;
+
+    // One row per full move, as in the move history
+    const movePairs: { moveNumber: number; white?: AnalyzedMove; black?: AnalyzedMove }[] = [];
+    analysis.moves.forEach((move) => {
+      const moveNumber = getMoveNumber(startFen, move.ply);
+      if (movePairs.length === 0 || movePairs[movePairs.length - 1].moveNumber !== moveNumber) {
+        movePairs.push({ moveNumber });
+      }
+      movePairs[movePairs.length - 1][isWhitePly(startFen, move.ply) ? "white" : "black"] = move;
+    });
+
+    const renderMove = (move?: AnalyzedMove) => {
+      if (!move) return <span className="w-20"></span>;
+      const style = move.classification ? CLASSIFICATIONS[move.classification] : undefined;
+      return (
+        <button
+          className={`w-20 text-left px-1 rounded hover:bg-gray-100 ${style?.className ?? ""}`}
+          title={style && move.bestMove ? `Best was ${move.bestMove}` : undefined}
+          onClick={() => openReplay(move.ply)}
+        >
+          {move.move}{style?.symbol}
+        </button>
+      );
+    };
+
+    return (
+      <div className="space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          {[true, false].map((white) => (
+            <div key={white ? "white" : "black"} className="p-3 bg-gray-50 rounded-lg">
+              <p className="font-medium mb-1">{white ? "White" : "Black"}</p>
+              {(Object.keys(CLASSIFICATIONS) as MoveClassification[]).map((classification) => (
+                <p key={classification} className={CLASSIFICATIONS[classification].className}>
+                  {countFor(white, classification)} {CLASSIFICATIONS[classification].label.toLowerCase()}
+                </p>
+              ))}
+              <p className="text-gray-600">
+                Average loss: {(white ? analysis.whiteAverageLoss : analysis.blackAverageLoss) ?? "?"} cp
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Evaluation graph */}
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <AreaChart
+            data={points}
+            margin={{ left: 0, right: 12, top: 8 }}
+            onClick={(state) => {
+              if (state?.activeTooltipIndex !== undefined) openReplay(points[state.activeTooltipIndex].ply);
+            }}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={32} />
+            <YAxis domain={[-GRAPH_LIMIT, GRAPH_LIMIT]} tickLine={false} axisLine={false} width={32} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(_value, _name, item) => formatEvaluation(item.payload.raw)}
+                />
+              }
+            />
+            <Area
+              dataKey="evaluation"
+              type="monotone"
+              stroke="var(--color-evaluation)"
+              fill="var(--color-evaluation)"
+              fillOpacity={0.2}
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ChartContainer>
+
+        {/* Annotated moves */}
+        <ScrollArea className="h-48">
+          <div className="space-y-1">
+            {movePairs.map(({ moveNumber, white, black }) => (
+              <div key={moveNumber} className="flex items-center space-x-2 text-sm">
+                <span className="font-medium w-6">{moveNumber}.</span>
+                {white ? renderMove(white) : <span className="w-20 px-1">...</span>}
+                {renderMove(black)}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {flaggedMoves.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">Key moments</p>
+            {flaggedMoves.map((move) => (
+              <button
+                key={move.ply}
+                className="block w-full text-left px-1 rounded hover:bg-gray-100"
+                onClick={() => openReplay(move.ply)}
+              >
+                <span className={CLASSIFICATIONS[move.classification!].className}>
+                  {formatMoveNumber(startFen, move.ply)} {move.move}{CLASSIFICATIONS[move.classification!].symbol}
+                </span>
+                {move.bestMove && <span className="text-gray-600"> Best was {move.bestMove}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Button asChild variant="outline" className="w-full">
+          <a href={`/api/games/${gameId}/analysis/pgn`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Download annotated PGN
+          </a>
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Cpu className="w-5 h-5 mr-2" />
+          Computer Analysis
+          {analysis?.status === "completed" && analysis.engine && (
+            <span className="ml-2 text-sm font-normal text-gray-500">({analysis.engine})</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>{renderBody()}</CardContent>
+    </Card>
+  );
+}
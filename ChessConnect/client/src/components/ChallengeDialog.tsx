@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeChallenge, getJoinLink } from "@/lib/challenges";
+import { Copy, Swords } from "lucide-react";
+import type { ChallengeWithPlayers, User } from "@shared/schema";
+import { TIME_CONTROL_PRESETS } from "@shared/timeControl";
+import { getStartFenError } from "@shared/position";
+
+type ColorPreference = ChallengeWithPlayers['color'];
+
+interface ChallengeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Challenged directly; without one the challenge gets a join link to share
+  target?: User;
+}
+
+function getPlayerName(player: User): string {
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+// Sets up a challenge. Once someone accepts it the presence socket takes the
+// challenger to the game, so this dialog doesn't wait for an answer.
+export default function ChallengeDialog({ open, onOpenChange, target }: ChallengeDialogProps) {
+  const { toast } = useToast();
+  const [presetLabel, setPresetLabel] = useState("10+0");
+  const [color, setColor] = useState<ColorPreference>("random");
+  const [rated, setRated] = useState(true);
+  const [startFen, setStartFen] = useState("");
+  const [openChallenge, setOpenChallenge] = useState<ChallengeWithPlayers | null>(null);
+
+  const close = () => {
+    setOpenChallenge(null);
+    onOpenChange(false);
+  };
+
+  const fen = startFen.trim();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const { label, name, ...timeControl } = TIME_CONTROL_PRESETS.find((preset) => preset.label === presetLabel)!;
+      const response = await apiRequest("POST", "/api/challenges", {
+        ...timeControl,
+        color,
+        rated: rated && !fen,
+        startFen: fen || undefined,
+        targetUserId: target?.id,
+      });
+      return response.json() as Promise<ChallengeWithPlayers>;
+    },
+    onSuccess: (challenge) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      if (target) {
+        toast({ title: "Challenge sent", description: `Waiting for ${getPlayerName(target)} to answer.` });
+        close();
+      } else {
+        setOpenChallenge(challenge);
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (challengeId: string) => {
+      await apiRequest("DELETE", `/api/challenges/${challengeId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    const error = fen ? getStartFenError(fen) : undefined;
+    if (error) {
+      toast({ title: "Invalid position", description: error, variant: "destructive" });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const handleCopyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getJoinLink(code));
+      toast({ title: "Link copied", description: "Whoever opens it first plays you." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to copy the link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-md">
+        {openChallenge?.code ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Share this link</DialogTitle>
+              <DialogDescription>
+                {describeChallenge(openChallenge)}. The game starts as soon as someone opens the link and
+                accepts; it stays open for 24 hours.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex gap-2">
+              <Input readOnly value={getJoinLink(openChallenge.code)} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={() => handleCopyLink(openChallenge.code!)} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Join code: <span className="font-mono font-semibold text-gray-900">{openChallenge.code}</span>
+            </p>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => cancelMutation.mutate(openChallenge._id)}
+                disabled={cancelMutation.isPending}
+              >
+                Cancel Challenge
+              </Button>
+              <Button onClick={close}>Done</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{target ? `Challenge ${getPlayerName(target)}` : "Play a Friend"}</DialogTitle>
+              <DialogDescription>
+                {target
+                  ? "They have 30 minutes to accept."
+                  : "You'll get a link to send to whoever you want to play."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Time control</Label>
+                <Select value={presetLabel} onValueChange={setPresetLabel}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_CONTROL_PRESETS.map((preset) => (
+                      <SelectItem key={preset.label} value={preset.label}>
+                        {preset.label} {preset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Your color</Label>
+                <Select value={color} onValueChange={(value) => setColor(value as ColorPreference)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="random">Random</SelectItem>
+                    <SelectItem value="white">White</SelectItem>
+                    <SelectItem value="black">Black</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="challengeStartFen">Starting position (optional FEN)</Label>
+                <Input
+                  id="challengeStartFen"
+                  value={startFen}
+                  onChange={(e) => setStartFen(e.target.value)}
+                  placeholder="Leave empty for the standard starting position"
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="challengeRated">Rated</Label>
+                {/* Games from a set-up position are always casual */}
+                <Switch id="challengeRated" checked={rated && !fen} onCheckedChange={setRated} disabled={!!fen} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                <Swords className="h-4 w-4 mr-2" />
+                {target ? "Send Challenge" : "Create Link"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,10 +9,12 @@ interface ChessBoardProps {
   isPlayerTurn: boolean;
   gameStatus: string;
   fen: string;
-  timeRemaining?: number;
+  // Makes the board local: moves are handed to the parent instead of being
+  // sent to the game on the server
+  onMove?: (move: { san: string; fen: string }) => void;
 }
 
-export default function ChessBoard({ gameId, fen, orientation, isPlayerTurn, gameStatus, timeRemaining = 600 }: ChessBoardProps) {
+export default function ChessBoard({ gameId, fen, orientation, isPlayerTurn, gameStatus, onMove }: ChessBoardProps) {
   const [chess] = useState(() => new Chess());
   const [board, setBoard] = useState<Square[][]>([]);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
@@ -21,7 +23,7 @@ export default function ChessBoard({ gameId, fen, orientation, isPlayerTurn, gam
   const { toast } = useToast();
 
   const moveMutation = useMutation({
-    mutationFn: async ({ from, to, timeRemaining }: { from: string; to: string; timeRemaining: number }) => {
+    mutationFn: async ({ from, to }: { from: string; to: string }) => {
       const response = await fetch(`/api/games/${gameId}/moves`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -30,7 +32,6 @@ export default function ChessBoard({ gameId, fen, orientation, isPlayerTurn, gam
           move: from + to,
           moveNumber: chess.history().length + 1,
           fen: chess.fen(),
-          timeRemaining: timeRemaining,
         }),
       });
 
@@ -102,9 +103,17 @@ export default function ChessBoard({ gameId, fen, orientation, isPlayerTurn, gam
 
     if (selectedSquare && possibleMoves.includes(square)) {
       // Make move
+      if (onMove) {
+        const move = chess.move({ from: selectedSquare, to: square, promotion: 'q' });
+        setSelectedSquare(null);
+        setPossibleMoves([]);
+        onMove({ san: move.san, fen: chess.fen() });
+        return;
+      }
+
       const move = chess.move({ from: selectedSquare, to: square });
       if (move) {
-        moveMutation.mutate({ from: selectedSquare, to: square, timeRemaining });
+        moveMutation.mutate({ from: selectedSquare, to: square });
       }
       return;
     }
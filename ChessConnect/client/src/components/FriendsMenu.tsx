@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeChallenge } from "@/lib/challenges";
+import ChallengeDialog from "@/components/ChallengeDialog";
+import { Check, Eye, Link2, Swords, UserMinus, UserPlus, Users, X } from "lucide-react";
+import type { ChallengeWithPlayers, Friend, FriendRequest, Game, PresenceStatus, User } from "@shared/schema";
+
+const STATUS_STYLES: Record<PresenceStatus, { label: string; dot: string }> = {
+  online: { label: "Online", dot: "bg-green-500" },
+  playing: { label: "In a game", dot: "bg-blue-500" },
+  idle: { label: "Idle", dot: "bg-yellow-400" },
+  offline: { label: "Offline", dot: "bg-gray-300" },
+};
+
+function getPlayerName(player: User): string {
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+function PlayerAvatar({ player, status }: { player: User; status?: PresenceStatus }) {
+  return (
+    <div className="relative flex-shrink-0">
+      <Avatar className="h-8 w-8">
+        <AvatarImage src={player.profileImageUrl || undefined} alt={getPlayerName(player)} />
+        <AvatarFallback>{getPlayerName(player)[0]}</AvatarFallback>
+      </Avatar>
+      {status && (
+        <span className={`absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full ring-2 ring-white ${STATUS_STYLES[status].dot}`} />
+      )}
+    </div>
+  );
+}
+
+interface FriendsMenuProps {
+  // Goes through Navigation so leaving a game asks for confirmation first
+  onNavigate: (path: string) => void;
+}
+
+// Friend list with live presence, pending friend requests and challenges, and
+// a name search to add friends. Presence updates arrive over the presence
+// socket (see usePresenceSocket), so nothing here polls.
+export default function FriendsMenu({ onNavigate }: FriendsMenuProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [challengeTarget, setChallengeTarget] = useState<User | null>(null);
+  const query = search.trim();
+
+  const { data: friends = [] } = useQuery<Friend[]>({
+    queryKey: ["/api/friends"],
+  });
+
+  const { data: requests = [] } = useQuery<FriendRequest[]>({
+    queryKey: ["/api/friends/requests"],
+  });
+
+  const { data: challenges = [] } = useQuery<ChallengeWithPlayers[]>({
+    queryKey: ["/api/challenges"],
+  });
+
+  const { data: searchResults = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/search", query],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/users/search?${new URLSearchParams({ q: query })}`);
+      return response.json();
+    },
+    enabled: open && query.length >= 2,
+  });
+
+  const refreshFriends = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/friends/requests"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const sendRequestMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", "/api/friends/requests", { userId });
+      return response.json();
+    },
+    onSuccess: refreshFriends,
+    onError,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      await apiRequest("POST", `/api/friends/requests/${requestId}/accept`);
+    },
+    onSuccess: refreshFriends,
+    onError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      await apiRequest("DELETE", `/api/friends/requests/${requestId}`);
+    },
+    onSuccess: refreshFriends,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/friends/${userId}`);
+    },
+    onSuccess: refreshFriends,
+    onError,
+  });
+
+  const refreshChallenges = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+  };
+
+  const acceptChallengeMutation = useMutation({
+    mutationFn: async (challengeId: string) => {
+      const response = await apiRequest("POST", `/api/challenges/${challengeId}/accept`);
+      return response.json() as Promise<Game>;
+    },
+    onSuccess: (game) => {
+      refreshChallenges();
+      setOpen(false);
+      onNavigate(`/game/${game._id}`);
+    },
+    onError: (error: Error) => {
+      refreshChallenges();
+      onError(error);
+    },
+  });
+
+  const declineChallengeMutation = useMutation({
+    mutationFn: async (challengeId: string) => {
+      await apiRequest("POST", `/api/challenges/${challengeId}/decline`);
+    },
+    onSuccess: refreshChallenges,
+    onError,
+  });
+
+  const cancelChallengeMutation = useMutation({
+    mutationFn: async (challengeId: string) => {
+      await apiRequest("DELETE", `/api/challenges/${challengeId}`);
+    },
+    onSuccess: refreshChallenges,
+    onError,
+  });
+
+  const incomingChallenges = challenges.filter((challenge) => challenge.targetUserId === user?.id);
+  const outgoingChallenges = challenges.filter((challenge) => challenge.challengerId === user?.id);
+  const challengedIds = new Set(outgoingChallenges.map((challenge) => challenge.targetUserId));
+
+  const incoming = requests.filter((request) => request.direction === "incoming");
+  const outgoing = requests.filter((request) => request.direction === "outgoing");
+  const onlineCount = friends.filter((friend) => friend.status !== "offline").length;
+
+  // Who in the search results is already a friend or has a request pending
+  const knownIds = new Set([...friends.map((friend) => friend.user.id), ...requests.map((request) => request.user.id)]);
+
+  const handleRemove = (friend: Friend) => {
+    if (window.confirm(`Remove ${getPlayerName(friend.user)} from your friends?`)) {
+      removeMutation.mutate(friend.user.id);
+    }
+  };
+
+  const handleWatch = (gameId: string) => {
+    setOpen(false);
+    onNavigate(`/game/${gameId}`);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title="Friends">
+          <Users className="h-5 w-5" />
+          {onlineCount > 0 && <span className="ml-1 text-xs text-gray-600">{onlineCount}</span>}
+          {incoming.length + incomingChallenges.length > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-bold text-white">
+              {incoming.length + incomingChallenges.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="p-3">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Find players by name"
+            className="h-8"
+          />
+          {query.length >= 2 && (
+            <div className="mt-2 space-y-1">
+              {searchResults.length === 0 ? (
+                <p className="text-sm text-gray-500 px-1">No players found</p>
+              ) : searchResults.map((player) => (
+                <div key={player.id} className="flex items-center gap-2 px-1 py-1">
+                  <PlayerAvatar player={player} />
+                  <span className="flex-1 truncate text-sm">{getPlayerName(player)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => sendRequestMutation.mutate(player.id)}
+                    disabled={knownIds.has(player.id) || sendRequestMutation.isPending}
+                    title="Send friend request"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {challenges.length > 0 && (
+          <>
+            <Separator />
+            <div className="p-3 space-y-1">
+              <p className="text-xs font-medium uppercase text-gray-500">Challenges</p>
+              {incomingChallenges.map((challenge) => (
+                <div key={challenge._id} className="flex items-center gap-2 py-1">
+                  <PlayerAvatar player={challenge.challenger} />
+                  <span className="flex-1 truncate text-sm">
+                    {getPlayerName(challenge.challenger)}
+                    <span className="block text-xs text-gray-500">{describeChallenge(challenge)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => acceptChallengeMutation.mutate(challenge._id)}
+                    disabled={acceptChallengeMutation.isPending}
+                    title="Accept"
+                  >
+                    <Check className="h-4 w-4 text-green-600" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => declineChallengeMutation.mutate(challenge._id)} title="Decline">
+                    <X className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+              {outgoingChallenges.map((challenge) => (
+                <div key={challenge._id} className="flex items-center gap-2 py-1">
+                  {challenge.target ? (
+                    <PlayerAvatar player={challenge.target} />
+                  ) : (
+                    <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-gray-100">
+                      <Link2 className="h-4 w-4 text-gray-500" />
+                    </div>
+                  )}
+                  <span className="flex-1 truncate text-sm">
+                    {challenge.target ? getPlayerName(challenge.target) : `Join link ${challenge.code}`}
+                    <span className="block text-xs text-gray-500">{describeChallenge(challenge)} · Waiting</span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => cancelChallengeMutation.mutate(challenge._id)} title="Cancel challenge">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {requests.length > 0 && (
+          <>
+            <Separator />
+            <div className="p-3 space-y-1">
+              <p className="text-xs font-medium uppercase text-gray-500">Requests</p>
+              {incoming.map((request) => (
+                <div key={request._id} className="flex items-center gap-2 py-1">
+                  <PlayerAvatar player={request.user} />
+                  <span className="flex-1 truncate text-sm">{getPlayerName(request.user)}</span>
+                  <Button variant="ghost" size="sm" onClick={() => acceptMutation.mutate(request._id)} title="Accept">
+                    <Check className="h-4 w-4 text-green-600" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => declineMutation.mutate(request._id)} title="Decline">
+                    <X className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+              {outgoing.map((request) => (
+                <div key={request._id} className="flex items-center gap-2 py-1">
+                  <PlayerAvatar player={request.user} />
+                  <span className="flex-1 truncate text-sm">
+                    {getPlayerName(request.user)}
+                    <span className="block text-xs text-gray-500">Request sent</span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => declineMutation.mutate(request._id)} title="Cancel request">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Separator />
+        <div className="max-h-80 overflow-y-auto p-3 space-y-1">
+          <p className="text-xs font-medium uppercase text-gray-500">Friends</p>
+          {friends.length === 0 ? (
+            <p className="text-sm text-gray-500 py-2">Search for players above to add friends.</p>
+          ) : friends.map((friend) => (
+            <div key={friend.friendshipId} className="flex items-center gap-2 py-1">
+              <PlayerAvatar player={friend.user} status={friend.status} />
+              <span className="flex-1 truncate text-sm">
+                {getPlayerName(friend.user)}
+                <span className="block text-xs text-gray-500">{STATUS_STYLES[friend.status].label}</span>
+              </span>
+              {(friend.status === "online" || friend.status === "idle") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setOpen(false);
+                    setChallengeTarget(friend.user);
+                  }}
+                  disabled={challengedIds.has(friend.user.id)}
+                  title={challengedIds.has(friend.user.id) ? "Challenge sent" : "Challenge"}
+                >
+                  <Swords className="h-4 w-4" />
+                </Button>
+              )}
+              {friend.status === "playing" && friend.gameId && (
+                <Button variant="ghost" size="sm" onClick={() => handleWatch(friend.gameId!)} title="Watch">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => handleRemove(friend)} title="Remove friend">
+                <UserMinus className="h-4 w-4 text-gray-400" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+
+      {challengeTarget && (
+        <ChallengeDialog
+          open
+          onOpenChange={(isOpen) => !isOpen && setChallengeTarget(null)}
+          target={challengeTarget}
+        />
+      )}
+    </Popover>
+  );
+}
@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useAuth } from "@/hooks/useAuth";
 import { queryClient } from "@/lib/queryClient";
+import type { ChatChannel } from "@shared/schema";
 
 interface ChatMessage {
   _id?: string;
@@ -22,21 +23,27 @@ interface ChatMessage {
 
 interface GameChatProps {
   gameId: string;
+  isLive?: boolean;
+  // Spectators post to their own chat; players can read it after the game
+  channel?: ChatChannel;
+  readOnly?: boolean;
 }
 
-export default function GameChat({ gameId }: GameChatProps) {
+export default function GameChat({ gameId, isLive = false, channel = 'players', readOnly = false }: GameChatProps) {
   const [message, setMessage] = useState("");
   const { user } = useAuth();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
+  const queryKey = channel === 'players' ? ["chat", gameId] : ["chat", gameId, channel];
+
   const { data: messages = [], isLoading } = useQuery({
-    queryKey: ["chat", gameId],
+    queryKey,
     queryFn: async () => {
-      const response = await fetch(`/api/games/${gameId}/chat`);
+      const response = await fetch(`/api/games/${gameId}/chat?channel=${channel}`);
       if (!response.ok) throw new Error("Failed to fetch chat messages");
       return response.json();
     },
-    refetchInterval: 2000,
+    refetchInterval: isLive ? false : 2000,
   });
 
   const sendMessageMutation = useMutation({
@@ -51,7 +58,7 @@ export default function GameChat({ gameId }: GameChatProps) {
     },
     onSuccess: () => {
       setMessage("");
-      queryClient.invalidateQueries({ queryKey: ["chat", gameId] });
+      queryClient.invalidateQueries({ queryKey });
     },
   });
 
@@ -79,7 +86,7 @@ export default function GameChat({ gameId }: GameChatProps) {
   return (
     <div className="flex flex-col h-64">
       <div className="mb-2">
-        <h3 className="font-semibold text-sm">Game Chat</h3>
+        <h3 className="font-semibold text-sm">{channel === 'players' ? 'Game Chat' : 'Spectator Chat'}</h3>
       </div>
 
       <ScrollArea className="flex-1 border rounded p-2 mb-2" ref={scrollAreaRef}>
@@ -87,14 +94,16 @@ export default function GameChat({ gameId }: GameChatProps) {
           {!messages || messages.length === 0 ? (
             <div className="text-center py-4">
               <p className="text-xs text-gray-500">No messages yet</p>
-              <p className="text-xs text-gray-400">Send a message to start chatting!</p>
+              {!readOnly && <p className="text-xs text-gray-400">Send a message to start chatting!</p>}
             </div>
           ) : (
             messages.map((msg: ChatMessage, index: number) => (
               <div key={msg._id || msg.id || `msg-${index}`} className="text-sm">
                 <div className="flex items-start space-x-2">
                   <span className="text-xs text-gray-500 font-medium min-w-0">
-                    {msg?.playerId === user?.id ? 'You' : 'Opponent'}:
+                    {msg?.playerId === user?.id ? 'You'
+                      : channel === 'players' ? 'Opponent'
+                      : msg?.player?.firstName || 'Spectator'}:
                   </span>
                   <span className="text-gray-700 break-words flex-1">
                     {msg?.message || ''}
@@ -106,23 +115,25 @@ export default function GameChat({ gameId }: GameChatProps) {
         </div>
       </ScrollArea>
 
-      <form onSubmit={handleSubmit} className="flex space-x-2">
-        <Input
-          type="text"
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type a message..."
-          className="flex-1 text-sm"
-          disabled={!user}
-        />
-        <Button 
-          type="submit" 
-          size="sm"
-          disabled={!message.trim() || !user || sendMessageMutation.isPending}
-        >
-          Send
-        </Button>
-      </form>
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="flex space-x-2">
+          <Input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Type a message..."
+            className="flex-1 text-sm"
+            disabled={!user}
+          />
+          <Button 
+            type="submit" 
+            size="sm"
+            disabled={!message.trim() || !user || sendMessageMutation.isPending}
+          >
+            Send
+          </Button>
+        </form>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -18,10 +18,11 @@ import { useEffect } from "react";
 interface GameControlsProps {
   gameId: string | undefined;
   gameStatus: string;
+  isLive?: boolean;
   className?: string;
 }
 
-export default function GameControls({ gameId, gameStatus, className }: GameControlsProps) {
+export default function GameControls({ gameId, gameStatus, isLive = false, className }: GameControlsProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -29,7 +30,7 @@ export default function GameControls({ gameId, gameStatus, className }: GameCont
   const { data: drawOffers = [] } = useQuery({
     queryKey: ["/api/games", gameId, "draw-offers"],
     enabled: !!gameId && gameId !== 'undefined' && gameStatus === 'active',
-    refetchInterval: 3000,
+    refetchInterval: isLive ? false : 3000,
   });
 
   const resignMutation = useMutation({
@@ -1,21 +1,51 @@
 
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
 import { Badge } from "./ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
 import { Trophy, Medal, Award } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import type { User } from "@shared/schema";
+import { RATING_CATEGORIES, type RatingCategory } from "@shared/timeControl";
+
+type LeaderboardCategory = RatingCategory | "overall";
 
 export default function Leaderboard() {
+  const [category, setCategory] = useState<LeaderboardCategory>("overall");
+
   const { data: leaderboard = [], isLoading } = useQuery({
-    queryKey: ["/api/leaderboard"],
+    queryKey: ["/api/leaderboard", category],
     queryFn: async () => {
-      const response = await apiRequest("GET", "/api/leaderboard?limit=50");
+      const params = new URLSearchParams({ limit: "50" });
+      if (category !== "overall") params.set("category", category);
+      const response = await apiRequest("GET", `/api/leaderboard?${params}`);
       return response.json();
     },
   });
 
+  const getPlayerRating = (player: User) => {
+    if (category === "overall") {
+      return { rating: player.rating, gamesPlayed: player.gamesPlayed };
+    }
+    const pool = player.ratings?.[category];
+    return { rating: pool?.rating ?? 1200, gamesPlayed: pool?.gamesPlayed ?? 0 };
+  };
+
+  const categoryTabs = (
+    <Tabs value={category} onValueChange={(value) => setCategory(value as LeaderboardCategory)}>
+      <TabsList>
+        <TabsTrigger value="overall">Overall</TabsTrigger>
+        {RATING_CATEGORIES.map((c) => (
+          <TabsTrigger key={c} value={c} className="capitalize">
+            {c}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  );
+
   const getDisplayName = (player: User) => {
     if (player.firstName && player.lastName) {
       return `${player.firstName} ${player.lastName}`;
@@ -52,11 +82,12 @@ export default function Leaderboard() {
   if (isLoading) {
     return (
       <Card>
-        <CardHeader>
+        <CardHeader className="space-y-4">
           <CardTitle className="flex items-center">
             <Trophy className="w-5 h-5 mr-2" />
             Leaderboard
           </CardTitle>
+          {categoryTabs}
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
@@ -79,11 +110,12 @@ export default function Leaderboard() {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="space-y-4">
         <CardTitle className="flex items-center">
           <Trophy className="w-5 h-5 mr-2" />
           Leaderboard
         </CardTitle>
+        {categoryTabs}
       </CardHeader>
       <CardContent>
         {leaderboard.length === 0 ? (
@@ -96,6 +128,7 @@ export default function Leaderboard() {
           <div className="space-y-3">
             {leaderboard.map((player: User, index: number) => {
               const position = index + 1;
+              const { rating, gamesPlayed } = getPlayerRating(player);
               const winRate = player.gamesPlayed > 0 ? 
                 ((player.wins / player.gamesPlayed) * 100).toFixed(1) : "0.0";
 
@@ -125,15 +158,17 @@ export default function Leaderboard() {
                       </Badge>
                     </div>
                     <div className="flex items-center space-x-4 text-sm text-gray-600">
-                      <span>{player.gamesPlayed} games</span>
+                      <span>{gamesPlayed} games</span>
                       <span>{player.wins}W-{player.losses}L-{player.draws}D</span>
                       <span>{winRate}% win rate</span>
                     </div>
                   </div>
 
                   <div className="text-right">
-                    <div className="font-bold text-lg">{player.rating}</div>
-                    <div className="text-xs text-gray-500">Rating</div>
+                    <div className="font-bold text-lg">{rating}</div>
+                    <div className="text-xs text-gray-500 capitalize">
+                      {category === "overall" ? "Rating" : category}
+                    </div>
                   </div>
                 </div>
               );
@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { START_FEN, getMoveNumber, isWhitePly } from "@shared/position";
 
 interface Move {
   _id: string;
@@ -10,17 +11,40 @@ interface Move {
 
 interface MoveHistoryProps {
   moves: Move[];
+  // Position the game was set up from, for games not starting from the standard one
+  startFen?: string;
+  // Replay mode: highlight the move at this ply and let moves be clicked
+  currentPly?: number;
+  onSelectPly?: (ply: number) => void;
 }
 
-export default function MoveHistory({ moves }: MoveHistoryProps) {
-  const groupedMoves = moves.reduce((acc: { [key: number]: Move[] }, move) => {
-    const moveNumber = Math.ceil(move.moveNumber / 2);
-    if (!acc[moveNumber]) {
-      acc[moveNumber] = [];
+export default function MoveHistory({ moves, startFen = START_FEN, currentPly, onSelectPly }: MoveHistoryProps) {
+  // One row per full move; a game set up with black to move starts with an
+  // empty white slot
+  const groupedMoves = moves.reduce((acc: { moveNumber: number; white?: Move; black?: Move }[], move) => {
+    const moveNumber = getMoveNumber(startFen, move.moveNumber);
+    if (acc.length === 0 || acc[acc.length - 1].moveNumber !== moveNumber) {
+      acc.push({ moveNumber });
     }
-    acc[moveNumber].push(move);
+    acc[acc.length - 1][isWhitePly(startFen, move.moveNumber) ? 'white' : 'black'] = move;
     return acc;
-  }, {});
+  }, []);
+
+  const renderMove = (move?: Move) => {
+    if (!move) return <span className="w-16"></span>;
+    if (!onSelectPly) return <span className="w-16">{move.move}</span>;
+
+    return (
+      <button
+        className={`w-16 text-left px-1 rounded ${
+          move.moveNumber === currentPly ? 'bg-green-600 text-white' : 'hover:bg-gray-100'
+        }`}
+        onClick={() => onSelectPly(move.moveNumber)}
+      >
+        {move.move}
+      </button>
+    );
+  };
 
   return (
     <Card>
@@ -29,15 +53,15 @@ export default function MoveHistory({ moves }: MoveHistoryProps) {
       </CardHeader>
       <CardContent>
         <ScrollArea className="h-64">
-          {Object.keys(groupedMoves).length === 0 ? (
+          {groupedMoves.length === 0 ? (
             <p className="text-gray-500 text-center py-4">No moves yet</p>
           ) : (
             <div className="space-y-1">
-              {Object.entries(groupedMoves).map(([moveNumber, movePair]) => (
+              {groupedMoves.map(({ moveNumber, white, black }) => (
                 <div key={moveNumber} className="flex items-center space-x-2 text-sm">
                   <span className="font-medium w-6">{moveNumber}.</span>
-                  <span className="w-16">{movePair[0]?.move || ''}</span>
-                  <span className="w-16">{movePair[1]?.move || ''}</span>
+                  {white ? renderMove(white) : <span className="w-16 px-1">...</span>}
+                  {renderMove(black)}
                 </div>
               ))}
             </div>
@@ -46,4 +70,4 @@ export default function MoveHistory({ moves }: MoveHistoryProps) {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
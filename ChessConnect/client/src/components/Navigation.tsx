@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { Sword, Menu, Play, User, LogOut } from "lucide-react";
 import { useLocation } from "wouter";
+import { queryClient } from "@/lib/queryClient";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,16 +13,26 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import FriendsMenu from "@/components/FriendsMenu";
+import type { Game } from "@shared/schema";
 
 export default function Navigation() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const [showMobileMenu, setShowMobileMenu] = useState(false);
 
+  // Spectators and players of finished games can leave without resigning
+  const isInActiveGame = () => {
+    const match = window.location.pathname.match(/^\/game\/([^/]+)/);
+    if (!match) return false;
+    const game = queryClient.getQueryData<Game>(["/api/games", match[1]]);
+    if (!game) return true;
+    return game.status === 'active' && (game.whitePlayerId === user?.id || game.blackPlayerId === user?.id);
+  };
+
   const handleNavigation = (path: string) => {
     // Check if user is currently in an active game
-    const currentPath = window.location.pathname;
-    if (currentPath.includes('/game/')) {
+    if (isInActiveGame()) {
       const confirmLeave = window.confirm('You are currently in an active game. If you leave now, you will lose the game. Are you sure you want to leave?');
       if (!confirmLeave) {
         return;
@@ -36,8 +47,7 @@ export default function Navigation() {
 
   const handleQuickPlay = () => {
     // Check if user is currently in an active game
-    const currentPath = window.location.pathname;
-    if (currentPath.includes('/game/')) {
+    if (isInActiveGame()) {
       const confirmLeave = window.confirm('You are currently in an active game. If you leave now, you will lose the game. Are you sure you want to leave?');
       if (!confirmLeave) {
         return;
@@ -67,6 +77,24 @@ export default function Navigation() {
               >
                 Play
               </button>
+              <button
+                onClick={() => handleNavigation("/library")}
+                className="text-gray-700 hover:text-green-600 px-3 py-2 text-sm font-medium transition-colors"
+              >
+                Library
+              </button>
+              <button
+                onClick={() => handleNavigation("/explorer")}
+                className="text-gray-700 hover:text-green-600 px-3 py-2 text-sm font-medium transition-colors"
+              >
+                Explorer
+              </button>
+              <button
+                onClick={() => handleNavigation("/watch")}
+                className="text-gray-700 hover:text-green-600 px-3 py-2 text-sm font-medium transition-colors"
+              >
+                Watch
+              </button>
               <button className="text-gray-700 hover:text-green-600 px-3 py-2 text-sm font-medium transition-colors">
                 Puzzles
               </button>
@@ -85,6 +113,8 @@ export default function Navigation() {
               Quick Play
             </Button>
 
+            {user && <FriendsMenu onNavigate={handleNavigation} />}
+
             {user && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -164,6 +194,33 @@ export default function Navigation() {
             >
               Play
             </button>
+            <button
+              onClick={() => {
+                handleNavigation("/library");
+                setShowMobileMenu(false);
+              }}
+              className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-green-600 hover:bg-gray-50 w-full text-left"
+            >
+              Library
+            </button>
+            <button
+              onClick={() => {
+                handleNavigation("/explorer");
+                setShowMobileMenu(false);
+              }}
+              className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-green-600 hover:bg-gray-50 w-full text-left"
+            >
+              Explorer
+            </button>
+            <button
+              onClick={() => {
+                handleNavigation("/watch");
+                setShowMobileMenu(false);
+              }}
+              className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-green-600 hover:bg-gray-50 w-full text-left"
+            >
+              Watch
+            </button>
             <button className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-green-600 hover:bg-gray-50 w-full text-left">
               Puzzles
             </button>
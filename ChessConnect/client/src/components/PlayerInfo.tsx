@@ -6,55 +6,60 @@ import type { User } from "@shared/schema";
 
 interface PlayerInfoProps {
   player: User | null;
+  name?: string; // shown when there is no player account, e.g. imported games
   timeRemaining: number;
   isCurrentTurn: boolean;
+  isClockRunning?: boolean;
   isCurrentPlayer?: boolean;
   gameStatus: string;
+  onTimeout?: () => void;
   className?: string;
 }
 
 export default function PlayerInfo({
   player,
+  name,
   timeRemaining,
   isCurrentTurn,
+  isClockRunning = isCurrentTurn,
   isCurrentPlayer = false,
   gameStatus,
+  onTimeout,
   className = "",
 }: PlayerInfoProps) {
   const [currentTime, setCurrentTime] = useState(timeRemaining);
 
+  // The server owns the clock; this only counts down between its updates
   useEffect(() => {
     setCurrentTime(timeRemaining);
-  }, [timeRemaining]);
 
-  useEffect(() => {
-    if (isCurrentTurn && gameStatus === 'active') {
-      const timer = setInterval(() => {
-        setCurrentTime(prev => {
-          const newTime = Math.max(0, prev - 1);
-          if (newTime === 0) {
-            // Time's up - this would need to be handled by the parent component
-            clearInterval(timer);
-          }
-          return newTime;
-        });
-      }, 1000);
+    if (!isClockRunning || gameStatus !== 'active') return;
 
-      return () => clearInterval(timer);
-    }
-  }, [isCurrentTurn, gameStatus]);
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const newTime = Math.max(0, timeRemaining - (Date.now() - startedAt) / 1000);
+      setCurrentTime(newTime);
+      if (newTime === 0) {
+        clearInterval(timer);
+        // Ask the server to confirm the flag fall and end the game
+        onTimeout?.();
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [timeRemaining, isClockRunning, gameStatus]);
 
-  const formatTime = (seconds: number) => {
+  const formatTime = (time: number) => {
+    const seconds = Math.ceil(time);
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
   const getDisplayName = (player: User | null) => {
-    if (!player) return "Waiting...";
-    if (player.id.startsWith('bot_')) {
-      const difficulty = player.id.split('_')[1];
-      return `Bot (${difficulty})`;
+    if (!player) return name || "Waiting...";
+    if (player.isBot) {
+      return `${player.firstName} (Bot)`;
     }
     if (player.firstName && player.lastName) {
       return `${player.firstName} ${player.lastName}`;
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import { TrendingUp } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { RatingHistoryEntry } from "@shared/schema";
+import { RATING_CATEGORIES, type RatingCategory } from "@shared/timeControl";
+
+type HistoryCategory = RatingCategory | "overall";
+
+const DATE_RANGES = [
+  { label: "30D", days: 30 },
+  { label: "90D", days: 90 },
+  { label: "1Y", days: 365 },
+  { label: "All", days: 0 },
+];
+
+const chartConfig = {
+  rating: {
+    label: "Rating",
+    color: "hsl(217, 91%, 60%)",
+  },
+} satisfies ChartConfig;
+
+interface RatingHistoryChartProps {
+  userId?: string;
+}
+
+export default function RatingHistoryChart({ userId }: RatingHistoryChartProps) {
+  const [days, setDays] = useState(90);
+  const [category, setCategory] = useState<HistoryCategory>("overall");
+
+  const { data: history = [], isLoading } = useQuery<RatingHistoryEntry[]>({
+    queryKey: ["/api/users/rating-history", userId, days],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (days > 0) {
+        params.set("from", new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString());
+      }
+      const response = await apiRequest("GET", `/api/users/${userId}/rating-history?${params}`);
+      return response.json();
+    },
+    enabled: !!userId,
+  });
+
+  const points = history
+    .filter((entry) => category === "overall" || entry.category === category)
+    .map((entry) => ({
+      date: new Date(entry.createdAt).toLocaleDateString(),
+      rating: category === "overall" ? entry.overallRating : entry.rating,
+      change: category === "overall" ? entry.overallRatingChange : entry.ratingChange,
+    }));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="space-y-4">
+        <CardTitle className="flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2" />
+          Rating History
+        </CardTitle>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={category} onValueChange={(value) => setCategory(value as HistoryCategory)}>
+            <TabsList>
+              <TabsTrigger value="overall">Overall</TabsTrigger>
+              {RATING_CATEGORIES.map((c) => (
+                <TabsTrigger key={c} value={c} className="capitalize">
+                  {c}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex space-x-1">
+            {DATE_RANGES.map((range) => (
+              <Button
+                key={range.label}
+                size="sm"
+                variant={days === range.days ? "default" : "outline"}
+                onClick={() => setDays(range.days)}
+              >
+                {range.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 bg-gray-50 rounded-lg animate-pulse" />
+        ) : points.length === 0 ? (
+          <div className="text-center py-16 text-gray-500">
+            <TrendingUp className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No rated games in this period</p>
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} />
+              <YAxis domain={["dataMin - 25", "dataMax + 25"]} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, _name, item) => {
+                      const change = item.payload.change;
+                      return `${value} (${change > 0 ? "+" : ""}${change})`;
+                    }}
+                  />
+                }
+              />
+              <Line
+                dataKey="rating"
+                type="monotone"
+                stroke="var(--color-rating)"
+                strokeWidth={2}
+                dot={points.length <= 30}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
@@ -8,9 +9,11 @@ import { ChevronLeft, ChevronRight, Calendar, Clock } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import type { Game } from "@shared/schema";
+import { formatTimeControl } from "@shared/timeControl";
 
 export default function RecentMatches() {
   const { user } = useAuth();
+  const [, setLocation] = useLocation();
   const [currentPage, setCurrentPage] = useState(1);
   const gamesPerPage = 5;
 
@@ -59,16 +62,6 @@ export default function RecentMatches() {
     });
   };
 
-  const formatTimeControl = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    if (minutes >= 60) {
-      const hours = Math.floor(minutes / 60);
-      const remainingMinutes = minutes % 60;
-      return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
-    }
-    return `${minutes}m`;
-  };
-
   if (!user) return null;
 
   if (isLoading) {
@@ -123,7 +116,10 @@ export default function RecentMatches() {
                 return (
                   <div
                     key={game._id || game.id}
-                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                    className={`flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors ${
+                      game.status === 'completed' ? 'cursor-pointer' : ''
+                    }`}
+                    onClick={() => game.status === 'completed' && setLocation(`/replay/${game._id}`)}
                   >
                     <div className="flex items-center space-x-3">
                       <Badge variant={getResultBadgeVariant(result)}>
@@ -132,7 +128,12 @@ export default function RecentMatches() {
                       <div className="flex items-center space-x-2 text-sm text-gray-600">
                         <span>{playerColor}</span>
                         <Clock className="w-3 h-3" />
-                        <span>{formatTimeControl(game.timeControl || 600)}</span>
+                        <span>{formatTimeControl(game.timeControl, game.timeIncrement, game.timeDelay)}</span>
+                        {game.openingName && (
+                          <span className="truncate max-w-[12rem]" title={`${game.eco} ${game.openingName}`}>
+                            • {game.openingName}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="text-sm text-gray-500">
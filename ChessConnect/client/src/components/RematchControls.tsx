@@ -0,0 +1,120 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "./ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RotateCcw } from "lucide-react";
+import type { Game, RematchSeries, User } from "@shared/schema";
+
+interface RematchControlsProps {
+  game: Game;
+  userId: string;
+  opponent: User | null;
+}
+
+function formatScore(score = 0): string {
+  const whole = Math.floor(score);
+  return score % 1 ? `${whole || ""}½` : `${whole}`;
+}
+
+// Rematch offer, answer or bot "play again" under a finished game's result,
+// plus the head-to-head score once the players have had a rematch. Offers and
+// answers arrive over the game socket, which also moves both players to the
+// new game when it starts.
+export default function RematchControls({ game, userId, opponent }: RematchControlsProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const gameId = game._id.toString();
+  const opponentId = game.whitePlayerId === userId ? game.blackPlayerId : game.whitePlayerId;
+  const isBotGame = !!opponent?.isBot;
+
+  const { data: series } = useQuery<RematchSeries>({
+    queryKey: ["/api/games", gameId, "series"],
+  });
+
+  const onError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const rematchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/games/${gameId}/rematch`);
+      return response.json() as Promise<{ started: boolean; game: Game }>;
+    },
+    onSuccess: (data) => {
+      if (data.started) {
+        setLocation(`/game/${data.game._id}`);
+      } else {
+        queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+          old ? { ...old, rematchOfferedBy: userId } : old
+        );
+      }
+    },
+    onError,
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/games/${gameId}/rematch`);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+        old ? { ...old, rematchOfferedBy: undefined } : old
+      );
+    },
+    onError,
+  });
+
+  // Games opened without an opponent have no one to play again
+  if (!opponentId) return null;
+
+  const isPending = rematchMutation.isPending || declineMutation.isPending;
+  const playedSeries = (series?.games.length ?? 0) > 1;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {game.rematchGameId ? (
+        <Button size="sm" onClick={() => setLocation(`/game/${game.rematchGameId}`)}>
+          Go to rematch
+        </Button>
+      ) : isBotGame ? (
+        <Button size="sm" onClick={() => rematchMutation.mutate()} disabled={isPending}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Play again
+        </Button>
+      ) : game.rematchOfferedBy === opponentId ? (
+        <div>
+          <p className="text-sm font-medium mb-2">Your opponent wants a rematch</p>
+          <div className="flex justify-center gap-2">
+            <Button size="sm" onClick={() => rematchMutation.mutate()} disabled={isPending}>
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => declineMutation.mutate()} disabled={isPending}>
+              Decline
+            </Button>
+          </div>
+        </div>
+      ) : game.rematchOfferedBy === userId ? (
+        <div className="flex items-center justify-center gap-2">
+          <span className="text-sm text-gray-600">Rematch offered</span>
+          <Button size="sm" variant="ghost" onClick={() => declineMutation.mutate()} disabled={isPending}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" onClick={() => rematchMutation.mutate()} disabled={isPending}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Rematch
+        </Button>
+      )}
+
+      {playedSeries && series && (
+        <p className="text-sm text-gray-600">
+          Series ({series.games.length} games): You {formatScore(series.scores[userId])} –{" "}
+          {formatScore(series.scores[opponentId])} {opponent?.firstName || "Opponent"}
+        </p>
+      )}
+    </div>
+  );
+}
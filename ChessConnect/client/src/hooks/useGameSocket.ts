@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { navigate } from "wouter/use-browser-location";
+import { queryClient } from "@/lib/queryClient";
+import type { GameEvent } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY = 10000;
+
+// Subscribes to the real-time game channel and writes incoming events straight
+// into the React Query cache. While disconnected, callers should fall back to
+// polling; `isConnected` tells them when that is needed. Spectators use the
+// same channel; `spectatorCount` is how many of them are watching.
+export function useGameSocket(gameId: string | undefined) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+
+  useEffect(() => {
+    if (!gameId || gameId === 'undefined') return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let closedByUs = false;
+
+    const handleEvent = (event: GameEvent) => {
+      switch (event.type) {
+        case 'move':
+          // Keep the players that getGameWithPlayers attached to the cached game
+          queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+            old ? { ...old, ...event.game } : old
+          );
+          queryClient.setQueryData(["/api/games", gameId, "moves"], (old: any[] | undefined) => {
+            if (!old) return old;
+            if (old.some((move) => move._id === event.move._id)) return old;
+            return [...old, event.move];
+          });
+          break;
+        case 'chat':
+          queryClient.setQueryData(["chat", gameId], (old: any[] | undefined) => {
+            if (!old) return old;
+            if (old.some((msg) => msg._id === event.message._id)) return old;
+            return [...old, event.message];
+          });
+          break;
+        case 'spectator-chat':
+          queryClient.setQueryData(["chat", gameId, "spectators"], (old: any[] | undefined) => {
+            if (!old) return old;
+            if (old.some((msg) => msg._id === event.message._id)) return old;
+            return [...old, event.message];
+          });
+          break;
+        case 'spectators':
+          setSpectatorCount(event.count);
+          break;
+        case 'privacy':
+          // Spectators of a game made private lose access on the refetch
+          queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+          break;
+        case 'draw-offer':
+        case 'draw-declined':
+          queryClient.invalidateQueries({ queryKey: ["/api/games", gameId, "draw-offers"] });
+          break;
+        case 'resign':
+        case 'game-over':
+          queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+            old ? { ...old, ...event.game } : old
+          );
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/users/rating-history"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+          break;
+        case 'rematch-offer':
+        case 'rematch-declined':
+          queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+            old ? { ...old, rematchOfferedBy: event.type === 'rematch-offer' ? event.playerId : undefined } : old
+          );
+          break;
+        case 'rematch':
+          queryClient.setQueryData(["/api/games", gameId], (old: any) =>
+            old ? { ...old, rematchOfferedBy: undefined, rematchGameId: event.rematchGameId } : old
+          );
+          navigate(`/game/${event.rematchGameId}`);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/game`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        socket?.send(JSON.stringify({ type: 'subscribe', gameId }));
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const data = JSON.parse(message.data);
+          if (data.type === 'subscribed') {
+            setIsConnected(true);
+            // Catch up on anything that happened while we were offline
+            queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+            queryClient.invalidateQueries({ queryKey: ["chat", gameId] });
+          } else if (data.gameId === gameId) {
+            handleEvent(data as GameEvent);
+          }
+        } catch (error) {
+          console.error('Error handling game socket message:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (closedByUs) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    setSpectatorCount(0);
+    connect();
+
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [gameId]);
+
+  return { isConnected, spectatorCount };
+}
@@ -0,0 +1,127 @@
+import { useEffect } from "react";
+import { navigate } from "wouter/use-browser-location";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { describeChallenge } from "@/lib/challenges";
+import type { Friend, PresenceEvent } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// Without keyboard or mouse input for this long the user shows as idle
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+// Keeps the user's presence connection open while they are signed in. The
+// connection is what makes them show as online to friends; in return it
+// brings their friends' status changes, which are written into the cached
+// friend list, and their challenges: a challenge they sent being accepted
+// takes them straight to the game.
+export function usePresenceSocket(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let closedByUs = false;
+    let isIdle = false;
+
+    const send = (message: { type: 'idle' | 'active' }) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const setIdle = (idle: boolean) => {
+      if (idle === isIdle) return;
+      isIdle = idle;
+      send({ type: idle ? 'idle' : 'active' });
+    };
+
+    const handleActivity = () => {
+      clearTimeout(idleTimer);
+      if (document.hidden) {
+        setIdle(true);
+        return;
+      }
+      setIdle(false);
+      idleTimer = setTimeout(() => setIdle(true), IDLE_TIMEOUT);
+    };
+
+    const handleEvent = (event: PresenceEvent) => {
+      switch (event.type) {
+        case 'presence':
+          queryClient.setQueryData(["/api/friends"], (old: Friend[] | undefined) =>
+            old?.map((friend) =>
+              friend.user.id === event.userId ? { ...friend, status: event.status, gameId: event.gameId } : friend
+            )
+          );
+          break;
+        case 'friends-changed':
+          queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/friends/requests"] });
+          break;
+        case 'challenges-changed':
+          queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+          break;
+        case 'challenge-received': {
+          const { challenger } = event.challenge;
+          queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+          toast({
+            title: `${[challenger.firstName, challenger.lastName].filter(Boolean).join(" ") || "Someone"} challenged you`,
+            description: `${describeChallenge(event.challenge)}. Answer from the friends menu.`,
+          });
+          break;
+        }
+        case 'challenge-accepted':
+          queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+          navigate(`/game/${event.gameId}`);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/presence`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        if (isIdle) send({ type: 'idle' });
+        // Statuses may have changed while we were disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/friends/requests"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error('Error handling presence socket message:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closedByUs) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    activityEvents.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleActivity);
+
+    connect();
+    handleActivity();
+
+    return () => {
+      closedByUs = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(idleTimer);
+      activityEvents.forEach((name) => window.removeEventListener(name, handleActivity));
+      document.removeEventListener('visibilitychange', handleActivity);
+      socket?.close();
+    };
+  }, [enabled]);
+}
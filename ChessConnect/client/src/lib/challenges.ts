@@ -0,0 +1,14 @@
+import type { Challenge } from "@shared/schema";
+import { formatTimeControl } from "@shared/timeControl";
+
+// e.g. "5+0 · Rated" or "10+0 · Casual · Set-up position"
+export function describeChallenge(
+  challenge: Pick<Challenge, 'timeControl' | 'timeIncrement' | 'timeDelay' | 'rated' | 'startFen'>
+): string {
+  const timeControl = formatTimeControl(challenge.timeControl, challenge.timeIncrement, challenge.timeDelay);
+  return `${timeControl} · ${challenge.rated ? "Rated" : "Casual"}${challenge.startFen ? " · Set-up position" : ""}`;
+}
+
+export function getJoinLink(code: string): string {
+  return `${window.location.origin}/join/${code}`;
+}
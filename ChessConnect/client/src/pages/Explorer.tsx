@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Chess, validateFen } from "chess.js";
+import Navigation from "@/components/Navigation";
+import ChessBoard from "@/components/ChessBoard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ChevronLeft, Compass, RefreshCw, RotateCcw } from "lucide-react";
+import type { ExplorerMoveStats } from "@shared/schema";
+import { START_FEN, formatMoveNumber, isWhitePly } from "@shared/position";
+
+type ExplorerScope = "global" | "personal";
+
+interface ExplorerPosition {
+  fen: string;
+  scope: ExplorerScope;
+  opening: { eco: string; name: string } | null;
+  games: number;
+  whiteWins: number;
+  draws: number;
+  blackWins: number;
+  moves: ExplorerMoveStats[];
+}
+
+interface LineMove {
+  san: string;
+  fen: string;
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+function ResultBar({ whiteWins, draws, blackWins, games }: Pick<ExplorerMoveStats, "whiteWins" | "draws" | "blackWins" | "games">) {
+  const segments = [
+    { value: percent(whiteWins, games), className: "bg-white text-gray-800" },
+    { value: percent(draws, games), className: "bg-gray-400 text-white" },
+    { value: percent(blackWins, games), className: "bg-gray-800 text-white" },
+  ];
+
+  return (
+    <div className="flex h-5 w-full overflow-hidden rounded border border-gray-300 text-xs">
+      {segments.map((segment, i) => segment.value > 0 && (
+        <div
+          key={i}
+          className={`flex items-center justify-center ${segment.className}`}
+          style={{ width: `${segment.value}%` }}
+        >
+          {segment.value >= 12 && `${segment.value}%`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Explorer() {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<ExplorerScope>("global");
+  const [startFen, setStartFen] = useState(START_FEN);
+  const [line, setLine] = useState<LineMove[]>([]);
+  const [fenInput, setFenInput] = useState("");
+  const [flipped, setFlipped] = useState(false);
+
+  const fen = line.length > 0 ? line[line.length - 1].fen : startFen;
+
+  const { data: position, isLoading } = useQuery<ExplorerPosition>({
+    queryKey: ["/api/explorer", scope, fen],
+    queryFn: async () => {
+      const params = new URLSearchParams({ fen, scope });
+      const response = await apiRequest("GET", `/api/explorer?${params}`);
+      return response.json();
+    },
+  });
+
+  const playMove = (san: string) => {
+    const chess = new Chess(fen);
+    try {
+      chess.move(san);
+    } catch {
+      return;
+    }
+    setLine([...line, { san, fen: chess.fen() }]);
+  };
+
+  const loadFen = () => {
+    const trimmed = fenInput.trim();
+    const validation = validateFen(trimmed);
+    if (!validation.ok) {
+      toast({ title: "Invalid FEN", description: validation.error, variant: "destructive" });
+      return;
+    }
+    setStartFen(trimmed);
+    setLine([]);
+  };
+
+  const reset = () => {
+    setStartFen(START_FEN);
+    setLine([]);
+    setFenInput("");
+  };
+
+  // Numbered like PGN; the line may start from a set-up position
+  const formatLineMove = (index: number, san: string) => {
+    const ply = index + 1;
+    return isWhitePly(startFen, ply) || index === 0 ? `${formatMoveNumber(startFen, ply)} ${san}` : san;
+  };
+
+  const orientation = flipped ? "black" : "white";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Opening Explorer</h1>
+          <p className="text-gray-600">See what has been played from any position in games on OpenChess, and how it turned out.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          {/* Board */}
+          <div className="lg:col-span-7 space-y-4">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex justify-center mb-4">
+                  <ChessBoard
+                    gameId={undefined}
+                    fen={fen}
+                    orientation={orientation}
+                    isPlayerTurn={true}
+                    gameStatus="active"
+                    onMove={(move) => setLine([...line, move])}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setLine(line.slice(0, -1))} disabled={line.length === 0} title="Take back">
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={reset} title="Back to the starting position">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setFlipped(!flipped)} title="Flip board">
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {position?.opening && (
+                    <span className="text-sm text-gray-600 truncate ml-4">
+                      {position.opening.eco} · {position.opening.name}
+                    </span>
+                  )}
+                </div>
+
+                {line.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-1 text-sm">
+                    {line.map((move, i) => (
+                      <button
+                        key={i}
+                        className={`px-1 rounded hover:bg-gray-100 ${i === line.length - 1 ? "font-semibold" : ""}`}
+                        onClick={() => setLine(line.slice(0, i + 1))}
+                      >
+                        {formatLineMove(i, move.san)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4 space-y-2">
+                <Label htmlFor="explorerFen">Set up a position (FEN)</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="explorerFen"
+                    value={fenInput}
+                    onChange={(e) => setFenInput(e.target.value)}
+                    placeholder={START_FEN}
+                    className="font-mono text-xs"
+                  />
+                  <Button variant="outline" onClick={loadFen} disabled={!fenInput.trim()}>
+                    Load
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Move statistics */}
+          <div className="lg:col-span-5">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center">
+                    <Compass className="w-5 h-5 mr-2" />
+                    Moves
+                  </span>
+                  <Tabs value={scope} onValueChange={(value) => setScope(value as ExplorerScope)}>
+                    <TabsList>
+                      <TabsTrigger value="global">Everyone</TabsTrigger>
+                      <TabsTrigger value="personal">My games</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-3">
+                    {[...Array(5)].map((_, i) => (
+                      <div key={i} className="h-8 bg-gray-50 rounded-lg animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : !position || position.moves.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <Compass className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No games reached this position</p>
+                    <p className="text-sm">
+                      {scope === "personal" ? "Try the games of everyone on the site." : "Play it and be the first!"}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-1 text-sm">
+                    <div className="grid grid-cols-12 gap-2 px-2 pb-1 text-xs font-medium text-gray-500">
+                      <span className="col-span-2">Move</span>
+                      <span className="col-span-2 text-right">Games</span>
+                      <span className="col-span-2 text-right">Rating</span>
+                      <span className="col-span-6">White / Draw / Black</span>
+                    </div>
+                    {position.moves.map((move) => (
+                      <button
+                        key={move.move}
+                        className="grid grid-cols-12 gap-2 items-center w-full px-2 py-1 rounded text-left hover:bg-gray-100"
+                        onClick={() => playMove(move.move)}
+                      >
+                        <span className="col-span-2 font-medium">{move.move}</span>
+                        <span className="col-span-2 text-right">
+                          {move.games}
+                          <span className="text-gray-400"> {percent(move.games, position.games)}%</span>
+                        </span>
+                        <span className="col-span-2 text-right text-gray-600">{move.averageRating ?? "–"}</span>
+                        <div className="col-span-6">
+                          <ResultBar {...move} />
+                        </div>
+                      </button>
+                    ))}
+                    <div className="grid grid-cols-12 gap-2 items-center px-2 pt-2 border-t">
+                      <span className="col-span-2 font-medium">Total</span>
+                      <span className="col-span-2 text-right">{position.games}</span>
+                      <span className="col-span-2"></span>
+                      <div className="col-span-6">
+                        <ResultBar {...position} />
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useEffect } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useGameSocket } from "@/hooks/useGameSocket";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Navigation from "@/components/Navigation";
@@ -10,7 +11,13 @@ import GameChat from "@/components/GameChat";
 import MoveHistory from "@/components/MoveHistory";
 import PlayerInfo from "@/components/PlayerInfo";
 import GameControls from "@/components/GameControls";
+import AnalysisPanel from "@/components/AnalysisPanel";
+import RematchControls from "@/components/RematchControls";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Eye, History, Lock, LockOpen } from "lucide-react";
 import type { Game, User } from "@shared/schema";
 
 export default function Game() {
@@ -18,14 +25,18 @@ export default function Game() {
   const gameId = params.id;
   const { user, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
 
   // Add comprehensive validation for gameId
   const isValidGameId = gameId && gameId !== 'undefined' && gameId !== 'null' && gameId.length > 0;
 
+  // Live updates come over the socket; polling only runs while it is down
+  const { isConnected, spectatorCount } = useGameSocket(isValidGameId ? gameId : undefined);
+
   const { data: game, isLoading: gameLoading, error: gameError } = useQuery({
     queryKey: ["/api/games", gameId],
     enabled: isValidGameId,
-    refetchInterval: 5000,
+    refetchInterval: isConnected ? false : 5000,
     retry: (failureCount, error: any) => {
       // Don't retry if it's a 404 or 400 error
       if (error?.response?.status === 404 || error?.response?.status === 400) {
@@ -38,7 +49,7 @@ export default function Game() {
   const { data: moves = [], isLoading: movesLoading } = useQuery({
     queryKey: ["/api/games", gameId, "moves"],
     enabled: isValidGameId && !!game,
-    refetchInterval: 3000,
+    refetchInterval: isConnected ? false : 3000,
   });
 
   if (!isValidGameId) {
@@ -54,11 +65,14 @@ export default function Game() {
   }
 
   if (gameError) {
+    const isPrivate = gameError.message.startsWith("403");
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
-          <h1 className="text-2xl font-bold text-red-600">Game Not Found</h1>
-          <p className="text-gray-600 mt-2">The requested game could not be loaded</p>
+          <h1 className="text-2xl font-bold text-red-600">{isPrivate ? "Private Game" : "Game Not Found"}</h1>
+          <p className="text-gray-600 mt-2">
+            {isPrivate ? "The players have closed this game to spectators" : "The requested game could not be loaded"}
+          </p>
         </div>
       </div>
     );
@@ -79,9 +93,12 @@ export default function Game() {
     }
   }, [gameError, toast]);
 
-  // Prevent user from leaving active game without warning
+  // Prevent user from leaving active game without warning; spectators can
+  // come and go
   useEffect(() => {
     if (!game || game.status !== 'active') return;
+    const { whitePlayerId, blackPlayerId } = game as Game;
+    if (whitePlayerId !== user?.id && blackPlayerId !== user?.id) return;
 
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       e.preventDefault();
@@ -125,7 +142,7 @@ export default function Game() {
       window.removeEventListener('beforeunload', handleBeforeUnload);
       window.removeEventListener('popstate', handlePopState);
     };
-  }, [game, gameId]);
+  }, [game, gameId, user?.id]);
 
 
   if (authLoading || gameLoading) {
@@ -164,27 +181,48 @@ export default function Game() {
   const isWhitePlayer = gameData.whitePlayerId === user?.id;
   const isBlackPlayer = gameData.blackPlayerId === user?.id;
   const isPlayerInGame = isWhitePlayer || isBlackPlayer;
+  const isSpectator = !isPlayerInGame;
 
-  if (!isPlayerInGame) {
-    return (
-      <div className="min-h-screen bg-gray-50">
-        <Navigation />
-        <div className="flex items-center justify-center h-96">
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-center">
-                <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
-                <p className="text-gray-600">You are not a player in this game.</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
-    );
-  }
+  // Players see the board from their side; spectators from White's
+  const bottomColor: 'white' | 'black' = isBlackPlayer ? 'black' : 'white';
+  const topColor: 'white' | 'black' = bottomColor === 'white' ? 'black' : 'white';
+  const players = { white: gameData.whitePlayer, black: gameData.blackPlayer };
+  const timeRemaining = { white: gameData.whiteTimeRemaining, black: gameData.blackTimeRemaining };
+  const isPlayerTurn =
+    (gameData.currentTurn === 'white' && isWhitePlayer) ||
+    (gameData.currentTurn === 'black' && isBlackPlayer);
 
-  const opponent = isWhitePlayer ? gameData.blackPlayer : gameData.whitePlayer;
-  const currentPlayer = isWhitePlayer ? gameData.whitePlayer : gameData.blackPlayer;
+  const myRatingChange = isWhitePlayer ? gameData.whiteRatingChange : gameData.blackRatingChange;
+
+  // Clocks only run once the first move has been played
+  const isClockStarted = !!gameData.lastMoveAt;
+
+  // Refetching lets the server confirm the flag fall and end the game
+  const handleTimeout = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/games", gameId] });
+  };
+
+  const handleTogglePrivate = async () => {
+    try {
+      const response = await apiRequest("PUT", `/api/games/${gameId}/privacy`, { private: !gameData.private });
+      const updated = await response.json();
+      queryClient.setQueryData(["/api/games", gameId], (old: any) => (old ? { ...old, private: updated.private } : old));
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const terminationText: { [key: string]: string } = {
+    checkmate: 'by checkmate',
+    resignation: 'by resignation',
+    timeout: 'on time',
+    timeout_vs_insufficient_material: 'timeout vs insufficient material',
+    stalemate: 'by stalemate',
+    insufficient_material: 'by insufficient material',
+    threefold_repetition: 'by threefold repetition',
+    fifty_move_rule: 'by the fifty-move rule',
+    draw_agreement: 'by agreement',
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -196,6 +234,28 @@ export default function Game() {
           <div className="lg:col-span-8">
             <Card>
               <CardContent className="p-6">
+                {/* Spectators, and whether more are allowed in */}
+                <div className="flex items-center justify-between mb-4 text-sm text-gray-600">
+                  <div className="flex items-center gap-2">
+                    {isSpectator && <Badge variant="secondary">Spectating</Badge>}
+                    <span className="flex items-center" title="Spectators">
+                      <Eye className="w-4 h-4 mr-1" />
+                      {spectatorCount} watching
+                    </span>
+                  </div>
+                  {isPlayerInGame && gameData.status === 'active' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleTogglePrivate}
+                      title={gameData.private ? "Allow spectators" : "Make private: no spectators"}
+                    >
+                      {gameData.private ? <Lock className="w-4 h-4 mr-1" /> : <LockOpen className="w-4 h-4 mr-1" />}
+                      {gameData.private ? "Private" : "Public"}
+                    </Button>
+                  )}
+                </div>
+
                 {/* Game Result */}
                 {gameData.status === 'completed' && (
                   <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200 text-center">
@@ -205,26 +265,40 @@ export default function Game() {
                        gameData.result === 'black_wins' ? 'Black wins!' :
                        gameData.result === 'draw' ? 'Game ended in a draw' :
                        'Game ended'}
+                      {gameData.termination && terminationText[gameData.termination] && (
+                        <span> ({terminationText[gameData.termination]})</span>
+                      )}
                     </p>
-                    {gameData.result && gameData.result !== 'draw' && (
+                    {isPlayerInGame && gameData.result && gameData.result !== 'draw' && (
                       <p className="text-sm text-gray-600 mt-1">
                         {((gameData.result === 'white_wins' && isWhitePlayer) ||
                           (gameData.result === 'black_wins' && isBlackPlayer)) ? 
                           'You won!' : 'You lost'}
                       </p>
                     )}
+                    {isPlayerInGame && myRatingChange !== undefined && (
+                      <p className={`text-sm font-medium mt-1 ${myRatingChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        Rating {myRatingChange >= 0 ? `+${myRatingChange}` : myRatingChange}
+                      </p>
+                    )}
+                    <Button variant="outline" size="sm" className="mt-3" onClick={() => setLocation(`/replay/${gameId}`)}>
+                      <History className="w-4 h-4 mr-2" />
+                      Replay game
+                    </Button>
+                    {isPlayerInGame && (
+                      <RematchControls game={gameData} userId={user!.id} opponent={players[topColor]} />
+                    )}
                   </div>
                 )}
 
-                {/* Opponent Info */}
+                {/* Top Player Info: the opponent, or Black for spectators */}
                 <PlayerInfo
-                  player={opponent}
-                  timeRemaining={isWhitePlayer ? gameData.blackTimeRemaining : gameData.whiteTimeRemaining}
-                  isCurrentTurn={
-                    (gameData.currentTurn === 'white' && !isWhitePlayer) ||
-                    (gameData.currentTurn === 'black' && !isBlackPlayer)
-                  }
+                  player={players[topColor]}
+                  timeRemaining={timeRemaining[topColor]}
+                  isCurrentTurn={gameData.currentTurn === topColor}
+                  isClockRunning={isClockStarted && gameData.currentTurn === topColor}
                   gameStatus={gameData.status}
+                  onTimeout={handleTimeout}
                   className="mb-6"
                 />
 
@@ -233,44 +307,63 @@ export default function Game() {
                   <ChessBoard
                     gameId={gameId || gameData.id}
                     fen={gameData.fen}
-                    orientation={isWhitePlayer ? 'white' : 'black'}
-                    isPlayerTurn={
-                      (gameData.currentTurn === 'white' && isWhitePlayer) ||
-                      (gameData.currentTurn === 'black' && isBlackPlayer)
-                    }
+                    orientation={bottomColor}
+                    isPlayerTurn={isPlayerTurn}
                     gameStatus={gameData.status}
-                    timeRemaining={isWhitePlayer ? gameData.whiteTimeRemaining : gameData.blackTimeRemaining}
                   />
                 </div>
 
-                {/* Current Player Info */}
+                {/* Opening, updated as the game goes */}
+                {gameData.openingName && (
+                  <p className="text-center text-sm text-gray-600 -mt-4 mb-6">
+                    <span className="font-mono font-medium">{gameData.eco}</span> {gameData.openingName}
+                  </p>
+                )}
+
+                {/* Bottom Player Info: the user, or White for spectators */}
                 <PlayerInfo
-                  player={currentPlayer}
-                  timeRemaining={isWhitePlayer ? gameData.whiteTimeRemaining : gameData.blackTimeRemaining}
-                  isCurrentTurn={
-                    (gameData.currentTurn === 'white' && isWhitePlayer) ||
-                    (gameData.currentTurn === 'black' && isBlackPlayer)
-                  }
+                  player={players[bottomColor]}
+                  timeRemaining={timeRemaining[bottomColor]}
+                  isCurrentTurn={gameData.currentTurn === bottomColor}
+                  isClockRunning={isClockStarted && gameData.currentTurn === bottomColor}
                   gameStatus={gameData.status}
-                  isCurrentPlayer={true}
+                  onTimeout={handleTimeout}
+                  isCurrentPlayer={isPlayerInGame}
                 />
               </CardContent>
             </Card>
 
             {/* Game Controls */}
-            <GameControls gameId={gameId || gameData.id} gameStatus={gameData.status} className="mt-4" />
+            {isPlayerInGame && (
+              <GameControls gameId={gameId || gameData.id} gameStatus={gameData.status} isLive={isConnected} className="mt-4" />
+            )}
+
+            {/* Post-game analysis */}
+            {gameData.status === 'completed' && (
+              <AnalysisPanel gameId={gameId || gameData.id} startFen={gameData.startFen} className="mt-4" />
+            )}
           </div>
 
           {/* Right Sidebar */}
           <div className="lg:col-span-4 space-y-6">
-            {/* Game Chat */}
-            <GameChat gameId={gameId || gameData.id} />
+            {/* Game Chat; the spectators' chat is theirs until the game is over */}
+            {isPlayerInGame && <GameChat gameId={gameId || gameData.id} isLive={isConnected} />}
+            {(isSpectator || gameData.status === 'completed') && (
+              <GameChat gameId={gameId || gameData.id} isLive={isConnected} channel="spectators" readOnly={isPlayerInGame} />
+            )}
 
             {/* Move History */}
-            <MoveHistory moves={moves || []} />
+            <MoveHistory moves={moves || []} startFen={gameData.startFen} />
+
+            <Button asChild variant="outline" className="w-full">
+              <a href={`/api/games/${gameId || gameData.id}/pgn`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Download PGN
+              </a>
+            </Button>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import Navigation from "@/components/Navigation";
+import { Search, History, ChevronLeft, ChevronRight, RotateCcw } from "lucide-react";
+import type { Game, GameSearchResult, User } from "@shared/schema";
+import { RATING_CATEGORIES, formatTimeControl } from "@shared/timeControl";
+
+interface SearchFilters {
+  opponent: string;
+  color: string;
+  result: string;
+  timeControl: string;
+  rated: string;
+  opening: string;
+  termination: string;
+  from: string;
+  to: string;
+  minMoves: string;
+  maxMoves: string;
+}
+
+// Selects use "any" for no filter, text inputs the empty string
+const EMPTY_FILTERS: SearchFilters = {
+  opponent: "",
+  color: "any",
+  result: "any",
+  timeControl: "any",
+  rated: "any",
+  opening: "any",
+  termination: "any",
+  from: "",
+  to: "",
+  minMoves: "",
+  maxMoves: "",
+};
+
+const TERMINATIONS: { [key: string]: string } = {
+  checkmate: "Checkmate",
+  resignation: "Resignation",
+  timeout: "Time",
+  timeout_vs_insufficient_material: "Time vs insufficient material",
+  stalemate: "Stalemate",
+  insufficient_material: "Insufficient material",
+  threefold_repetition: "Threefold repetition",
+  fifty_move_rule: "Fifty-move rule",
+  draw_agreement: "Agreement",
+};
+
+const SORTS: { [key: string]: string } = {
+  "date:desc": "Newest first",
+  "date:asc": "Oldest first",
+  "moves:desc": "Longest first",
+  "moves:asc": "Shortest first",
+};
+
+const GAMES_PER_PAGE = 20;
+
+function buildSearchParams(filters: SearchFilters, sort: string, page: number): URLSearchParams {
+  const [sortField, order] = sort.split(":");
+  const params = new URLSearchParams({ sort: sortField, order, page: String(page), limit: String(GAMES_PER_PAGE) });
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value || value === "any") continue;
+    if (key === "from") {
+      params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    } else if (key === "to") {
+      // The whole of the last day counts
+      params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    } else {
+      params.set(key, value.trim());
+    }
+  }
+  return params;
+}
+
+function getPlayerName(player: User | null): string {
+  if (!player) return "Unknown player";
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+export default function GameSearch() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  // Filters only apply once the form is submitted; sorting and paging are immediate
+  const [appliedFilters, setAppliedFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState("date:desc");
+  const [page, setPage] = useState(1);
+
+  const { data: openings = [] } = useQuery<{ opening: string; count: number }[]>({
+    queryKey: ["/api/users", user?.id, "openings"],
+    enabled: !!user?.id,
+  });
+
+  const { data: results, isLoading } = useQuery<GameSearchResult>({
+    queryKey: ["/api/users", user?.id, "games", "search", appliedFilters, sort, page],
+    queryFn: async () => {
+      const params = buildSearchParams(appliedFilters, sort, page);
+      const response = await apiRequest("GET", `/api/users/${user!.id}/games/search?${params}`);
+      return response.json();
+    },
+    enabled: !!user?.id,
+  });
+
+  const setFilter = (key: keyof SearchFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const getResult = (game: Game) => {
+    if (game.result === "draw") return "Draw";
+    const isWhite = game.whitePlayerId === user?.id;
+    return (game.result === "white_wins") === isWhite ? "Win" : "Loss";
+  };
+
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.limit)) : 1;
+  const firstShown = results && results.total > 0 ? (results.page - 1) * results.limit + 1 : 0;
+  const lastShown = results && results.games.length > 0 ? firstShown + results.games.length - 1 : 0;
+
+  const renderSelect = (key: keyof SearchFilters, label: string, options: { [value: string]: string }) => (
+    <div>
+      <Label>{label}</Label>
+      <Select value={filters[key]} onValueChange={(value) => setFilter(key, value)}>
+        <SelectTrigger className="mt-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Any</SelectItem>
+          {Object.entries(options).map(([value, text]) => (
+            <SelectItem key={value} value={value}>{text}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Game Search</h1>
+          <p className="text-gray-600">Find games from your history</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Filters */}
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <Search className="w-5 h-5 mr-2" />
+                  Filters
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSearch} className="space-y-4">
+                  <div>
+                    <Label htmlFor="opponent">Opponent</Label>
+                    <Input
+                      id="opponent"
+                      value={filters.opponent}
+                      onChange={(e) => setFilter("opponent", e.target.value)}
+                      placeholder="Name"
+                      className="mt-1"
+                    />
+                  </div>
+
+                  {renderSelect("color", "Color", { white: "White", black: "Black" })}
+                  {renderSelect("result", "Result", { win: "Win", loss: "Loss", draw: "Draw" })}
+                  {renderSelect("timeControl", "Time control",
+                    Object.fromEntries(RATING_CATEGORIES.map((c) => [c, c.charAt(0).toUpperCase() + c.slice(1)])))}
+                  {renderSelect("rated", "Rated", { rated: "Rated", casual: "Casual" })}
+                  {renderSelect("opening", "Opening",
+                    Object.fromEntries(openings.map(({ opening }) => [opening, opening])))}
+                  {renderSelect("termination", "Ended by", TERMINATIONS)}
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="from">From</Label>
+                      <Input id="from" type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor="to">To</Label>
+                      <Input id="to" type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} className="mt-1" />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="minMoves">Min moves</Label>
+                      <Input id="minMoves" type="number" min={0} value={filters.minMoves} onChange={(e) => setFilter("minMoves", e.target.value)} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor="maxMoves">Max moves</Label>
+                      <Input id="maxMoves" type="number" min={0} value={filters.maxMoves} onChange={(e) => setFilter("maxMoves", e.target.value)} className="mt-1" />
+                    </div>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button type="submit" className="flex-1 bg-green-600 hover:bg-green-700">
+                      <Search className="w-4 h-4 mr-2" />
+                      Search
+                    </Button>
+                    <Button type="button" variant="outline" onClick={handleReset} title="Clear filters">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Results */}
+          <div className="lg:col-span-3">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center">
+                  <History className="w-5 h-5 mr-2" />
+                  {results ? `${results.total} game${results.total === 1 ? "" : "s"}` : "Games"}
+                </CardTitle>
+                <Select
+                  value={sort}
+                  onValueChange={(value) => {
+                    setSort(value);
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SORTS).map(([value, text]) => (
+                      <SelectItem key={value} value={value}>{text}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-3">
+                    {[...Array(5)].map((_, i) => (
+                      <div key={i} className="h-14 bg-gray-50 rounded-lg animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : !results || results.games.length === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <Search className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No games match these filters</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-3">
+                      {results.games.map((game) => {
+                        const result = getResult(game);
+                        const isWhite = game.whitePlayerId === user?.id;
+                        const rated = game.whiteRatingChange !== undefined && game.whiteRatingChange !== null;
+
+                        return (
+                          <button
+                            key={game._id}
+                            className="flex items-center justify-between w-full p-3 border rounded-lg text-left hover:bg-gray-50 transition-colors"
+                            onClick={() => setLocation(`/replay/${game._id}`)}
+                          >
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">vs {getPlayerName(game.opponent)}</p>
+                              <p className="text-sm text-gray-500 truncate">
+                                {[
+                                  isWhite ? "White" : "Black",
+                                  formatTimeControl(game.timeControl, game.timeIncrement, game.timeDelay),
+                                  rated ? "Rated" : "Casual",
+                                  `${Math.ceil(game.moveCount / 2)} moves`,
+                                  game.termination && TERMINATIONS[game.termination],
+                                  new Date(game.createdAt).toLocaleDateString(),
+                                ].filter(Boolean).join(" • ")}
+                              </p>
+                              {game.openingName && (
+                                <p className="text-xs text-gray-500 truncate">{game.eco} {game.openingName}</p>
+                              )}
+                            </div>
+                            <Badge
+                              variant={result === "Win" ? "default" : result === "Loss" ? "destructive" : "secondary"}
+                              className="ml-4 flex-shrink-0"
+                            >
+                              {result}
+                            </Badge>
+                          </button>
+                        );
+                      })}
+                    </div>
+
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                        disabled={page === 1}
+                      >
+                        <ChevronLeft className="w-4 h-4 mr-1" />
+                        Previous
+                      </Button>
+
+                      <span className="text-sm text-gray-600">
+                        {firstShown}–{lastShown} of {results.total} · Page {results.page} of {totalPages}
+                      </span>
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage((prev) => prev + 1)}
+                        disabled={page >= totalPages}
+                      >
+                        Next
+                        <ChevronRight className="w-4 h-4 ml-1" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
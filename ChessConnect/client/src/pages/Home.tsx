@@ -3,16 +3,23 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Navigation from "@/components/Navigation";
+import ChallengeDialog from "@/components/ChallengeDialog";
 
-import { Play, Clock, Trophy, Target, History, Users } from "lucide-react";
+import { Play, Clock, Trophy, Target, History, Users, Search, Swords } from "lucide-react";
 import { useLocation } from "wouter";
-import type { Game, User } from "@shared/schema";
+import type { BotProfile, Game, User } from "@shared/schema";
+import { RATING_CATEGORIES, TIME_CONTROL_PRESETS, formatTimeControl, type TimeControlPreset } from "@shared/timeControl";
+import { getSideToMove, getStartFenError } from "@shared/position";
 
 function RecentGamesSection() {
   const { user } = useAuth();
@@ -20,12 +27,21 @@ function RecentGamesSection() {
   const [currentPage, setCurrentPage] = useState(1);
   const gamesPerPage = 5;
   const [hasMorePages, setHasMorePages] = useState(true);
+  const [opening, setOpening] = useState("all");
+
+  // Opening families the player has played, for the filter
+  const { data: openings = [] } = useQuery<{ opening: string; count: number }[]>({
+    queryKey: ["/api/users", user?.id, "openings"],
+    enabled: !!user?.id,
+  });
 
   const { data: games = [], isLoading } = useQuery({
-    queryKey: ["/api/users/games", user?.id, currentPage],
+    queryKey: ["/api/users/games", user?.id, currentPage, opening],
     queryFn: async () => {
       if (!user?.id) return [];
-      const response = await apiRequest("GET", `/api/users/${user.id}/games?page=${currentPage}&limit=${gamesPerPage + 1}`);
+      const params = new URLSearchParams({ page: String(currentPage), limit: String(gamesPerPage + 1) });
+      if (opening !== "all") params.set("opening", opening);
+      const response = await apiRequest("GET", `/api/users/${user.id}/games?${params}`);
       const data = await response.json();
       
       // If we get more than the page size, there are more pages
@@ -66,16 +82,6 @@ function RecentGamesSection() {
     }
   };
 
-  const formatTimeControl = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    if (minutes >= 60) {
-      const hours = Math.floor(minutes / 60);
-      const remainingMinutes = minutes % 60;
-      return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
-    }
-    return `${minutes}m`;
-  };
-
   const handleViewGame = (gameId: string) => {
     setLocation(`/game/${gameId}`);
   };
@@ -108,18 +114,51 @@ function RecentGamesSection() {
 
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="flex items-center">
           <History className="w-5 h-5 mr-2" />
           Recent Games
         </CardTitle>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setLocation('/games')}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+          </Button>
+          {openings.length > 0 && (
+            <Select
+              value={opening}
+              onValueChange={(value) => {
+                setOpening(value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="All openings" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All openings</SelectItem>
+                {openings.map(({ opening, count }) => (
+                  <SelectItem key={opening} value={opening}>
+                    {opening} ({count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {games.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <History className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>No games played yet</p>
-            <p className="text-sm">Start your first match above!</p>
+            {opening === "all" ? (
+              <>
+                <p>No games played yet</p>
+                <p className="text-sm">Start your first match above!</p>
+              </>
+            ) : (
+              <p>No games with this opening</p>
+            )}
           </div>
         ) : (
           <>
@@ -140,8 +179,13 @@ function RecentGamesSection() {
                       <div>
                         <p className="font-medium">vs {opponentName}</p>
                         <p className="text-sm text-gray-500">
-                          {playerColor} • {formatTimeControl(game.timeControl || 600)} • {new Date(game.createdAt).toLocaleDateString()}
+                          {playerColor} • {formatTimeControl(game.timeControl, game.timeIncrement, game.timeDelay)} • {new Date(game.createdAt).toLocaleDateString()}
                         </p>
+                        {game.openingName && (
+                          <p className="text-xs text-gray-500">
+                            {game.eco} {game.openingName}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -206,6 +250,9 @@ export default function Home() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [isMatchmaking, setIsMatchmaking] = useState(false);
+  const [searchingPreset, setSearchingPreset] = useState<string | null>(null);
+  const [botStartFen, setBotStartFen] = useState("");
+  const [challengeOpen, setChallengeOpen] = useState(false);
 
   const { data: recentGames } = useQuery({
     queryKey: ["/api/users", user?.id, "games"],
@@ -213,9 +260,11 @@ export default function Home() {
   });
 
   const matchmakingMutation = useMutation({
-    mutationFn: async (timeControl: number) => {
+    mutationFn: async (preset: TimeControlPreset) => {
       const response = await apiRequest("POST", "/api/matchmaking", {
-        timeControl,
+        timeControl: preset.timeControl,
+        timeIncrement: preset.timeIncrement,
+        timeDelay: preset.timeDelay,
         ratingRange: 200,
       });
       return response.json();
@@ -331,12 +380,17 @@ export default function Home() {
     },
   });
 
+  const { data: bots = [] } = useQuery<(BotProfile & { user: User })[]>({
+    queryKey: ["/api/bots"],
+  });
+
   const botGameMutation = useMutation({
-    mutationFn: async ({ difficulty, playerColor }: { difficulty: string, playerColor: string }) => {
+    mutationFn: async ({ botId, playerColor, startFen }: { botId: string, playerColor: string, startFen?: string }) => {
       const response = await apiRequest("POST", "/api/games/bot", {
-        difficulty,
+        botId,
         timeControl: 600,
         playerColor,
+        startFen,
       });
       return response.json();
     },
@@ -359,19 +413,38 @@ export default function Home() {
     },
   });
 
-  const handleQuickPlay = (timeControl: number) => {
+  const handleQuickPlay = (preset: TimeControlPreset) => {
     if (isMatchmaking) {
       cancelMatchmakingMutation.mutate();
     } else {
-      matchmakingMutation.mutate(timeControl);
+      setSearchingPreset(preset.label);
+      matchmakingMutation.mutate(preset);
     }
   };
 
-  const handleBotPlay = (difficulty: 'easy' | 'medium' | 'hard') => {
-    botGameMutation.mutate({ 
-      difficulty, 
-      playerColor: Math.random() > 0.5 ? 'white' : 'black' 
-    });
+  const handleBotPlay = (botId: string) => {
+    const startFen = botStartFen.trim();
+    if (!startFen) {
+      botGameMutation.mutate({ 
+        botId, 
+        playerColor: Math.random() > 0.5 ? 'white' : 'black' 
+      });
+      return;
+    }
+
+    const error = getStartFenError(startFen);
+    if (error) {
+      toast({
+        title: "Invalid position",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // From a set-up position the player takes the side to move, which is
+    // what practising an endgame or a book position calls for
+    botGameMutation.mutate({ botId, playerColor: getSideToMove(startFen), startFen });
   };
 
   if (authLoading) {
@@ -402,70 +475,81 @@ export default function Home() {
                 <p className="text-gray-600">Ready for your next chess match?</p>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <Button
-                    onClick={() => handleQuickPlay(600)}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    className="bg-green-600 hover:bg-green-700 h-16"
-                  >
-                    <Play className="w-5 h-5 mr-2" />
-                    {isMatchmaking ? "Cancel Search" : "Quick Play (10 min)"}
-                  </Button>
-                  <Button
-                    onClick={() => handleQuickPlay(300)}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    variant="outline"
-                    className="h-16"
-                  >
-                    <Clock className="w-5 h-5 mr-2" />
-                    Blitz (5 min)
-                  </Button>
-                  <Button
-                    onClick={() => handleQuickPlay(1800)}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    variant="outline"
-                    className="h-16"
-                  >
-                    <Target className="w-5 h-5 mr-2" />
-                    Classic (30 min)
-                  </Button>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {TIME_CONTROL_PRESETS.map((preset) => {
+                    const isSearching = isMatchmaking && searchingPreset === preset.label;
+
+                    return (
+                      <Button
+                        key={preset.label}
+                        onClick={() => handleQuickPlay(preset)}
+                        disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
+                        variant={isSearching ? "default" : "outline"}
+                        className={`h-16 flex-col ${isSearching ? 'bg-green-600 hover:bg-green-700' : ''}`}
+                      >
+                        <span className="flex items-center text-lg font-semibold">
+                          {isSearching ? <Play className="w-4 h-4 mr-2" /> : <Clock className="w-4 h-4 mr-2" />}
+                          {preset.label}
+                        </span>
+                        <span className="text-xs opacity-75">
+                          {isSearching ? "Cancel Search" : preset.name}
+                        </span>
+                      </Button>
+                    );
+                  })}
                 </div>
 
                 <Separator className="my-6" />
 
                 <div className="text-center mb-4">
                   <h3 className="text-lg font-semibold mb-2">Play Against Computer</h3>
-                  <p className="text-gray-600 text-sm">Practice with different difficulty levels</p>
+                  <p className="text-gray-600 text-sm">Pick an opponent, from beginner to master</p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <Button
-                    onClick={() => handleBotPlay('easy')}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    variant="outline"
-                    className="h-16"
-                  >
-                    <Target className="w-5 h-5 mr-2" />
-                    Easy Bot
-                  </Button>
-                  <Button
-                    onClick={() => handleBotPlay('medium')}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    variant="outline"
-                    className="h-16"
-                  >
-                    <Trophy className="w-5 h-5 mr-2" />
-                    Medium Bot
-                  </Button>
-                  <Button
-                    onClick={() => handleBotPlay('hard')}
-                    disabled={matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
-                    variant="outline"
-                    className="h-16"
-                  >
-                    <Users className="w-5 h-5 mr-2" />
-                    Hard Bot
-                  </Button>
+                <div className="mb-4">
+                  <Label htmlFor="botStartFen">Starting position (optional FEN)</Label>
+                  <Input
+                    id="botStartFen"
+                    value={botStartFen}
+                    onChange={(e) => setBotStartFen(e.target.value)}
+                    placeholder="Leave empty for the standard starting position"
+                    className="mt-1 font-mono text-xs"
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  {bots.map((bot) => (
+                    <div
+                      key={bot.userId}
+                      className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center space-x-3">
+                        <Avatar className="w-10 h-10">
+                          <AvatarImage src={bot.user.profileImageUrl} />
+                          <AvatarFallback>{bot.name.charAt(0).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <p className="font-medium">{bot.name}</p>
+                            <Badge variant="secondary">{bot.targetElo}</Badge>
+                            <Badge variant="outline" className="capitalize">{bot.style}</Badge>
+                          </div>
+                          {bot.description && (
+                            <p className="text-sm text-gray-500">{bot.description}</p>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        onClick={() => handleBotPlay(bot.userId)}
+                        disabled={botGameMutation.isPending || matchmakingMutation.isPending || cancelMatchmakingMutation.isPending}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Play
+                      </Button>
+                    </div>
+                  ))}
                 </div>
 
                 {isMatchmaking && (
@@ -499,6 +583,14 @@ export default function Home() {
                     <span className="text-gray-600">Rating</span>
                     <span className="font-bold text-lg">{user?.rating || 1200}</span>
                   </div>
+                  <div className="grid grid-cols-4 gap-2 text-center">
+                    {RATING_CATEGORIES.map((category) => (
+                      <div key={category}>
+                        <p className="font-semibold">{user?.ratings?.[category]?.rating ?? 1200}</p>
+                        <p className="text-xs text-gray-600 capitalize">{category}</p>
+                      </div>
+                    ))}
+                  </div>
                   <Separator />
                   <div className="grid grid-cols-2 gap-4">
                     <div className="text-center">
@@ -545,9 +637,13 @@ export default function Home() {
                     <Trophy className="w-4 h-4 mr-2" />
                     Leaderboard
                   </Button>
-                  <Button variant="outline" className="w-full justify-start">
-                    <Users className="w-4 h-4 mr-2" />
-                    Find Friends
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start"
+                    onClick={() => setChallengeOpen(true)}
+                  >
+                    <Swords className="w-4 h-4 mr-2" />
+                    Play a Friend
                   </Button>
                 </div>
               </CardContent>
@@ -555,6 +651,8 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      <ChallengeDialog open={challengeOpen} onOpenChange={setChallengeOpen} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,143 @@
+import { useParams, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeChallenge } from "@/lib/challenges";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Swords } from "lucide-react";
+import type { ChallengeWithPlayers, Game } from "@shared/schema";
+import { getRatingCategory } from "@shared/timeControl";
+
+const closedText: { [key: string]: string } = {
+  accepted: 'Someone has already accepted this challenge.',
+  declined: 'This challenge was declined.',
+  cancelled: 'This challenge was cancelled.',
+  expired: 'This challenge has expired.',
+};
+
+// Where a challenge's join link leads: shows who is asking for what kind of
+// game, and accepting it starts the game
+export default function Join() {
+  const params = useParams();
+  const code = params.code?.toUpperCase();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: challenge, isLoading } = useQuery<ChallengeWithPlayers>({
+    queryKey: ["/api/challenges/code", code],
+    enabled: !!code,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/challenges/${challenge!._id}/accept`);
+      return response.json() as Promise<Game>;
+    },
+    onSuccess: (game) => {
+      setLocation(`/game/${game._id}`);
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges/code", code] });
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading challenge...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!challenge) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <h2 className="text-xl font-semibold mb-2">Challenge Not Found</h2>
+                <p className="text-gray-600">Check the link or join code and try again.</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { challenger } = challenge;
+  const challengerName = [challenger.firstName, challenger.lastName].filter(Boolean).join(" ") || "Anonymous";
+  const category = getRatingCategory(challenge.timeControl, challenge.timeIncrement, challenge.timeDelay);
+  const challengerRating = challenger.ratings?.[category]?.rating ?? challenger.rating;
+  const isOwn = challenge.challengerId === user?.id;
+  const yourColor = challenge.color === 'random' ? 'Random' : challenge.color === 'white' ? 'Black' : 'White';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <div className="flex items-center justify-center py-16 px-4">
+        <Card className="w-full max-w-sm">
+          <CardContent className="pt-6">
+            <div className="flex flex-col items-center text-center space-y-4">
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={challenger.profileImageUrl || undefined} alt={challengerName} />
+                <AvatarFallback>{challengerName[0]}</AvatarFallback>
+              </Avatar>
+              <div>
+                <h2 className="text-xl font-semibold">{challengerName}</h2>
+                <p className="text-sm text-gray-600 capitalize">{category} {Math.round(challengerRating)}</p>
+              </div>
+              <div className="text-sm text-gray-700">
+                <p>{describeChallenge(challenge)}</p>
+                <p>You play: {yourColor}</p>
+              </div>
+              {challenge.startFen && (
+                <img
+                  src={`/api/board.svg?${new URLSearchParams({
+                    fen: challenge.startFen,
+                    orientation: yourColor === 'Black' ? 'black' : 'white',
+                  })}`}
+                  alt="Starting position"
+                  className="w-48 rounded"
+                />
+              )}
+
+              {challenge.status !== 'pending' ? (
+                <>
+                  <p className="text-gray-600">{closedText[challenge.status]}</p>
+                  {challenge.gameId && isOwn && (
+                    <Button onClick={() => setLocation(`/game/${challenge.gameId}`)}>Go to Game</Button>
+                  )}
+                </>
+              ) : isOwn ? (
+                <p className="text-gray-600">
+                  This is your challenge. Send the link to someone; the game starts when they accept.
+                </p>
+              ) : (
+                <Button className="w-full" onClick={() => acceptMutation.mutate()} disabled={acceptMutation.isPending}>
+                  <Swords className="h-4 w-4 mr-2" />
+                  Accept Challenge
+                </Button>
+              )}
+              <Button variant="ghost" onClick={() => setLocation('/')}>Back to Home</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import Leaderboard from "@/components/Leaderboard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { TrendingUp, Users, Trophy } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { RATING_CATEGORIES } from "@shared/timeControl";
 
 export default function LeaderboardPage() {
   const { user, isLoading: authLoading } = useAuth();
@@ -52,6 +53,15 @@ export default function LeaderboardPage() {
                       <div className="text-2xl font-bold text-blue-600">{user.rating}</div>
                       <div className="text-sm text-gray-600">Current Rating</div>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-2 text-center">
+                      {RATING_CATEGORIES.map((category) => (
+                        <div key={category}>
+                          <div className="font-semibold">{user.ratings?.[category]?.rating ?? 1200}</div>
+                          <div className="text-xs text-gray-600 capitalize">{category}</div>
+                        </div>
+                      ))}
+                    </div>
                     
                     <div className="grid grid-cols-2 gap-4 text-center">
                       <div>
@@ -93,22 +103,18 @@ export default function LeaderboardPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-3 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Win:</span>
-                    <span className="font-medium text-green-600">+25 points</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Loss:</span>
-                    <span className="font-medium text-red-600">-25 points</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Draw:</span>
-                    <span className="font-medium text-gray-600">+5 points</span>
-                  </div>
+                <div className="space-y-3 text-sm text-gray-600">
+                  <p>
+                    Ratings use Glicko-2: gains and losses depend on your
+                    opponent's rating and on how certain each rating is.
+                  </p>
+                  <p>
+                    Bullet, blitz, rapid and classical games each have their
+                    own rating, alongside an overall rating across all games.
+                  </p>
                   <div className="pt-2 border-t text-xs text-gray-500">
-                    <p>Starting rating: 1200</p>
-                    <p>Minimum rating: 800</p>
+                    <p>Starting rating: 1200 ± 350</p>
+                    <p>Bot games are unrated</p>
                   </div>
                 </div>
               </CardContent>
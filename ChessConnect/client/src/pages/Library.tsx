@@ -0,0 +1,262 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Navigation from "@/components/Navigation";
+import { BookOpen, Upload, Download, AlertCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import type { Game } from "@shared/schema";
+
+interface PgnImportResult {
+  games: { index: number; gameId: string; white?: string; black?: string; result?: string; moveCount: number }[];
+  errors: { index: number; message: string }[];
+}
+
+const RESULT_LABELS: Record<string, string> = {
+  white_wins: "1-0",
+  black_wins: "0-1",
+  draw: "½-½",
+};
+
+export default function Library() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [pgnText, setPgnText] = useState("");
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<PgnImportResult | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const gamesPerPage = 20;
+
+  const { data: games = [], isLoading } = useQuery<Game[]>({
+    queryKey: ["/api/library", currentPage],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/library?page=${currentPage}&limit=${gamesPerPage}`);
+      return response.json();
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<PgnImportResult> => {
+      if (!selectedFile) {
+        const response = await apiRequest("POST", "/api/games/import", { pgn: pgnText });
+        return response.json();
+      }
+
+      const formData = new FormData();
+      formData.append('pgn', selectedFile);
+
+      const response = await fetch('/api/games/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Import failed');
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      setPgnText("");
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      setCurrentPage(1);
+      queryClient.invalidateQueries({ queryKey: ["/api/library"] });
+
+      toast({
+        title: "Import finished",
+        description: `Imported ${result.games.length} game${result.games.length === 1 ? "" : "s"}` +
+          (result.errors.length > 0 ? `, ${result.errors.length} failed` : "") + ".",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import PGN. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (dateString: string | Date) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Library</h1>
+          <p className="text-gray-600">Games you have imported from PGN. Imported games are never rated.</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Import */}
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <Upload className="w-5 h-5 mr-2" />
+                  Import PGN
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="pgnFile">PGN file</Label>
+                  <Input
+                    id="pgnFile"
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".pgn,text/plain,application/x-chess-pgn"
+                    className="mt-1"
+                    onChange={(e) => setSelectedFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="pgnText">Or paste PGN</Label>
+                  <Textarea
+                    id="pgnText"
+                    value={pgnText}
+                    onChange={(e) => setPgnText(e.target.value)}
+                    placeholder={'[Event "Casual game"]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+                    className="mt-1 font-mono text-xs"
+                    rows={8}
+                    disabled={!!selectedFile}
+                  />
+                </div>
+
+                <Button
+                  onClick={() => importMutation.mutate()}
+                  disabled={importMutation.isPending || (!selectedFile && !pgnText.trim())}
+                  className="w-full bg-green-600 hover:bg-green-700"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importMutation.isPending ? "Importing..." : "Import"}
+                </Button>
+
+                {importResult && (
+                  <div className="space-y-2 text-sm">
+                    <p className="text-gray-700">
+                      Imported {importResult.games.length} of {importResult.games.length + importResult.errors.length} games.
+                    </p>
+                    {importResult.errors.map((error) => (
+                      <div key={error.index} className="flex items-start text-red-600">
+                        <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                        <span>Game {error.index}: {error.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Imported games */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <BookOpen className="w-5 h-5 mr-2" />
+                  Imported Games
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-3">
+                    {[...Array(5)].map((_, i) => (
+                      <div key={i} className="h-12 bg-gray-50 rounded-lg animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : games.length === 0 && currentPage === 1 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>Your library is empty</p>
+                    <p className="text-sm">Import a PGN file to start building it!</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-3">
+                      {games.map((game) => (
+                        <div
+                          key={game._id}
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                        >
+                          <button
+                            className="flex items-center space-x-3 min-w-0 text-left"
+                            onClick={() => setLocation(`/replay/${game._id}`)}
+                          >
+                            <Badge variant="secondary">
+                              {(game.result && RESULT_LABELS[game.result]) || "*"}
+                            </Badge>
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">
+                                {game.whitePlayerName || "?"} vs {game.blackPlayerName || "?"}
+                              </p>
+                              <p className="text-sm text-gray-500 truncate">
+                                {[game.event, `${Math.ceil(game.moveCount / 2)} moves`, formatDate(game.createdAt)]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </p>
+                            </div>
+                          </button>
+                          <Button asChild variant="ghost" size="sm">
+                            <a href={`/api/games/${game._id}/pgn`} download>
+                              <Download className="w-4 h-4" />
+                            </a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center justify-between mt-4 pt-4 border-t">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                        disabled={currentPage === 1}
+                      >
+                        <ChevronLeft className="w-4 h-4 mr-1" />
+                        Previous
+                      </Button>
+
+                      <span className="text-sm text-gray-600">
+                        Page {currentPage}
+                      </span>
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(prev => prev + 1)}
+                        disabled={games.length < gamesPerPage}
+                      >
+                        Next
+                        <ChevronRight className="w-4 h-4 ml-1" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
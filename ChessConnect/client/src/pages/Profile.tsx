@@ -10,7 +10,9 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Navigation from "@/components/Navigation";
-import { User, Settings, Upload, Save, Camera } from "lucide-react";
+import RatingHistoryChart from "@/components/RatingHistoryChart";
+import { User, Settings, Upload, Save, Camera, Download } from "lucide-react";
+import { RATING_CATEGORIES } from "@shared/timeControl";
 
 export default function Profile() {
   const { user } = useAuth();
@@ -374,8 +376,32 @@ export default function Profile() {
                       <Label className="text-sm font-medium text-gray-500">Current Rating</Label>
                       <p className="text-sm text-gray-900 font-bold text-blue-600">
                         {user?.rating || 1200}
+                        <span className="font-normal text-gray-500">
+                          {' '}± {Math.round(user?.ratingDeviation ?? 350)}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {(user?.ratingDeviation ?? 350) > 110
+                          ? "Provisional: play more rated games to settle your rating"
+                          : "Established rating"}
                       </p>
                     </div>
+
+                    <div>
+                      <Label className="text-sm font-medium text-gray-500">Ratings by Time Control</Label>
+                      <div className="grid grid-cols-4 gap-2 mt-1">
+                        {RATING_CATEGORIES.map((category) => {
+                          const pool = user?.ratings?.[category];
+                          return (
+                            <div key={category} className="text-center p-2 bg-gray-50 rounded">
+                              <p className="text-sm font-bold text-gray-900">{pool?.rating ?? 1200}</p>
+                              <p className="text-xs text-gray-500 capitalize">{category}</p>
+                              <p className="text-xs text-gray-400">{pool?.gamesPlayed ?? 0} games</p>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -410,6 +436,39 @@ export default function Profile() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Rating History */}
+            <RatingHistoryChart userId={user?.id} />
+
+            {/* Export */}
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Download className="w-5 h-5 mr-2" />
+                  Export Games
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 mb-4">
+                  Download every game you have played or imported. PGN opens in any chess program;
+                  JSON also includes clock times and chat.
+                </p>
+                <div className="flex space-x-2">
+                  <Button variant="outline" asChild>
+                    <a href="/api/export?format=pgn" download>
+                      <Download className="w-4 h-4 mr-2" />
+                      PGN
+                    </a>
+                  </Button>
+                  <Button variant="outline" asChild>
+                    <a href="/api/export?format=json" download>
+                      <Download className="w-4 h-4 mr-2" />
+                      JSON
+                    </a>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import ChessBoard from "@/components/ChessBoard";
+import MoveHistory from "@/components/MoveHistory";
+import PlayerInfo from "@/components/PlayerInfo";
+import AnalysisPanel from "@/components/AnalysisPanel";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Download, Film, Link2, RefreshCw } from "lucide-react";
+import type { Game, User } from "@shared/schema";
+import { formatMoveNumber, getStartFen, isWhitePly } from "@shared/position";
+
+interface ReplayMove {
+  _id: string;
+  moveNumber: number;
+  move: string;
+  fen: string;
+  timeRemaining?: number;
+  createdAt: string;
+}
+
+const terminationText: { [key: string]: string } = {
+  checkmate: 'by checkmate',
+  resignation: 'by resignation',
+  timeout: 'on time',
+  timeout_vs_insufficient_material: 'timeout vs insufficient material',
+  stalemate: 'by stalemate',
+  insufficient_material: 'by insufficient material',
+  threefold_repetition: 'by threefold repetition',
+  fifty_move_rule: 'by the fifty-move rule',
+  draw_agreement: 'by agreement',
+};
+
+export default function Replay() {
+  const params = useParams();
+  const gameId = params.id;
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [flipped, setFlipped] = useState(false);
+
+  const { data: game, isLoading: gameLoading } = useQuery<Game & { whitePlayer: User | null; blackPlayer: User | null }>({
+    queryKey: ["/api/games", gameId],
+    enabled: !!gameId,
+  });
+
+  const { data: moves = [], isLoading: movesLoading } = useQuery<ReplayMove[]>({
+    queryKey: ["/api/games", gameId, "moves"],
+    enabled: !!game,
+  });
+
+  // The ply lives in the URL so any position can be linked to; without one
+  // the replay opens at the final position
+  const requestedPly = parseInt(new URLSearchParams(search).get("ply") ?? "", 10);
+  const ply = Number.isNaN(requestedPly) ? moves.length : Math.max(0, Math.min(requestedPly, moves.length));
+
+  const goToPly = (target: number) => {
+    const next = Math.max(0, Math.min(target, moves.length));
+    setLocation(`/replay/${gameId}?ply=${next}`, { replace: true });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") return;
+
+      const targets: { [key: string]: number } = {
+        ArrowLeft: ply - 1,
+        ArrowRight: ply + 1,
+        ArrowUp: 0,
+        Home: 0,
+        ArrowDown: moves.length,
+        End: moves.length,
+      };
+      if (event.key in targets) {
+        event.preventDefault();
+        goToPly(targets[event.key]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [ply, moves.length, gameId]);
+
+  if (gameLoading || movesLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading game...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <h2 className="text-xl font-semibold mb-2">Game Not Found</h2>
+                <p className="text-gray-600">The requested game could not be found.</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (game.status === 'active') {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center">
+                <h2 className="text-xl font-semibold mb-2">Game In Progress</h2>
+                <p className="text-gray-600 mb-4">Replays are available once the game has finished.</p>
+                <Button onClick={() => setLocation(`/game/${gameId}`)}>Go to game</Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const startFen = getStartFen(game);
+  const fen = ply > 0 ? moves[ply - 1].fen : startFen;
+  const orientation = (game.blackPlayerId === user?.id) !== flipped ? 'black' : 'white';
+
+  // Each side's clock as recorded with its last move up to this ply
+  const getClockAt = (color: 'white' | 'black') => {
+    for (let i = ply - 1; i >= 0; i--) {
+      const isWhiteMove = isWhitePly(startFen, moves[i].moveNumber);
+      if (isWhiteMove === (color === 'white') && moves[i].timeRemaining != null) {
+        return moves[i].timeRemaining!;
+      }
+    }
+    return game.timeControl;
+  };
+
+  const sideToMove = isWhitePly(startFen, ply + 1) ? 'white' : 'black';
+  const players = {
+    white: { player: game.whitePlayer, name: game.whitePlayerName },
+    black: { player: game.blackPlayer, name: game.blackPlayerName },
+  };
+  const top = orientation === 'white' ? 'black' : 'white';
+  const bottom = orientation;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/replay/${gameId}?ply=${ply}`);
+      toast({ title: "Link copied", description: "The link opens the replay at this move." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to copy the link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          {/* Replay Board Area */}
+          <div className="lg:col-span-8">
+            <Card>
+              <CardContent className="p-6">
+                <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200 text-center">
+                  <h3 className="font-semibold text-lg mb-2">{game.imported ? (game.event || 'Imported game') : 'Game Replay'}</h3>
+                  <p className="text-gray-700">
+                    {game.result === 'white_wins' ? 'White won' :
+                     game.result === 'black_wins' ? 'Black won' :
+                     game.result === 'draw' ? 'Game ended in a draw' :
+                     'Game ended'}
+                    {game.termination && terminationText[game.termination] && (
+                      <span> ({terminationText[game.termination]})</span>
+                    )}
+                  </p>
+                </div>
+
+                <PlayerInfo
+                  player={players[top].player}
+                  name={players[top].name}
+                  timeRemaining={getClockAt(top)}
+                  isCurrentTurn={sideToMove === top}
+                  gameStatus={game.status}
+                  className="mb-6"
+                />
+
+                <div className="flex justify-center mb-6">
+                  <ChessBoard
+                    gameId={gameId}
+                    fen={fen}
+                    orientation={orientation}
+                    isPlayerTurn={false}
+                    gameStatus={game.status}
+                  />
+                </div>
+
+                <PlayerInfo
+                  player={players[bottom].player}
+                  name={players[bottom].name}
+                  timeRemaining={getClockAt(bottom)}
+                  isCurrentTurn={sideToMove === bottom}
+                  gameStatus={game.status}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Replay Controls */}
+            <Card className="mt-4">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => goToPly(0)} disabled={ply === 0} title="First move (↑)">
+                    <ChevronsLeft className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => goToPly(ply - 1)} disabled={ply === 0} title="Previous move (←)">
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => goToPly(ply + 1)} disabled={ply === moves.length} title="Next move (→)">
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => goToPly(moves.length)} disabled={ply === moves.length} title="Last move (↓)">
+                    <ChevronsRight className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <span className="text-sm text-gray-600">
+                  {ply === 0 ? 'Start' : `${formatMoveNumber(startFen, ply)} ${moves[ply - 1].move}`}
+                  {' '}({ply}/{moves.length})
+                </span>
+
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => setFlipped(!flipped)} title="Flip board">
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleCopyLink} title="Copy link to this move">
+                    <Link2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Right Sidebar */}
+          <div className="lg:col-span-4 space-y-6">
+            <MoveHistory moves={moves} startFen={startFen} currentPly={ply} onSelectPly={goToPly} />
+
+            <Button asChild variant="outline" className="w-full">
+              <a href={`/api/games/${gameId}/pgn`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Download PGN
+              </a>
+            </Button>
+
+            <Button asChild variant="outline" className="w-full">
+              <a href={`/api/games/${gameId}/animation.gif?orientation=${orientation}`} download={`game-${gameId}.gif`}>
+                <Film className="w-4 h-4 mr-2" />
+                Download GIF
+              </a>
+            </Button>
+
+            <AnalysisPanel gameId={gameId!} startFen={startFen} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Eye, Star } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { LiveGame, User, WatchList } from "@shared/schema";
+import { RATING_CATEGORIES, formatTimeControl, type RatingCategory } from "@shared/timeControl";
+
+type WatchFilter = RatingCategory | "all";
+
+// Boards only move as often as the list is refetched; clocks tick in between
+const REFRESH_INTERVAL = 5000;
+
+function getPlayerName(player: User | null): string {
+  if (!player) return "Anonymous";
+  if (player.isBot) return `${player.firstName} (Bot)`;
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+function getPlayerRating(player: User | null, game: LiveGame): number | undefined {
+  if (!player) return undefined;
+  const rating = (game.ratingCategory && player.ratings?.[game.ratingCategory]?.rating) ?? player.rating;
+  return Math.round(rating);
+}
+
+function formatClock(time: number): string {
+  const seconds = Math.ceil(time);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function getBoardUrl(game: LiveGame, coordinates: boolean): string {
+  const params = new URLSearchParams({ fen: game.fen, coordinates: String(coordinates) });
+  return `/api/board.svg?${params}`;
+}
+
+interface PlayerLineProps {
+  game: LiveGame;
+  side: 'white' | 'black';
+  // Seconds since the list was fetched, charged to the side to move
+  elapsed: number;
+}
+
+function PlayerLine({ game, side, elapsed }: PlayerLineProps) {
+  const player = side === 'white' ? game.whitePlayer : game.blackPlayer;
+  const stored = (side === 'white' ? game.whiteTimeRemaining : game.blackTimeRemaining) ?? game.timeControl ?? 600;
+  const isRunning = game.currentTurn === side && !!game.lastMoveAt;
+  const remaining = Math.max(0, stored - (isRunning ? elapsed : 0));
+  const rating = getPlayerRating(player, game);
+
+  return (
+    <div className="flex items-center justify-between text-sm gap-2">
+      <span className="truncate">
+        <span className={`inline-block w-2.5 h-2.5 rounded-sm mr-1.5 border border-gray-400 ${side === 'white' ? 'bg-white' : 'bg-gray-800'}`} />
+        {getPlayerName(player)}
+        {rating !== undefined && <span className="text-gray-500 ml-1">({rating})</span>}
+      </span>
+      <span className={`font-mono ${isRunning ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+        {formatClock(remaining)}
+      </span>
+    </div>
+  );
+}
+
+// Public games being played, highest average rating first, with one featured
+// on a large board. The list is polled rather than followed over the game
+// socket, which would count every visitor as a spectator of every game.
+export default function Watch() {
+  const [, setLocation] = useLocation();
+  const [filter, setFilter] = useState<WatchFilter>("all");
+  const [now, setNow] = useState(Date.now());
+
+  const { data, isLoading, dataUpdatedAt } = useQuery<WatchList>({
+    queryKey: ["/api/watch", filter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filter !== "all") params.set("timeControl", filter);
+      const response = await apiRequest("GET", `/api/watch?${params}`);
+      return response.json();
+    },
+    refetchInterval: REFRESH_INTERVAL,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsed = dataUpdatedAt ? Math.max(0, (now - dataUpdatedAt) / 1000) : 0;
+  const featured = data?.featured ?? null;
+  const others = data?.games.filter((game) => game._id !== featured?._id) ?? [];
+
+  const describeGame = (game: LiveGame) =>
+    `${formatTimeControl(game.timeControl, game.timeIncrement, game.timeDelay)} • move ${Math.floor((game.moveCount ?? 0) / 2) + 1}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Watch</h1>
+            <p className="text-gray-600">Live games, highest rated first</p>
+          </div>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as WatchFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              {RATING_CATEGORIES.map((category) => (
+                <TabsTrigger key={category} value={category} className="capitalize">
+                  {category}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        ) : !featured ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center py-12">
+                <Eye className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+                <h2 className="text-lg font-semibold mb-1">No live games</h2>
+                <p className="text-gray-600">
+                  {filter === "all" ? "Nobody is playing right now." : `No ${filter} games are being played right now.`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center text-lg">
+                  <Star className="w-5 h-5 mr-2 text-yellow-500" />
+                  Featured Game
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+                  <button onClick={() => setLocation(`/game/${featured._id}`)} className="block w-full max-w-md mx-auto">
+                    <img src={getBoardUrl(featured, true)} alt="Featured game position" className="w-full rounded shadow" />
+                  </button>
+                  <div className="space-y-4">
+                    <PlayerLine game={featured} side="black" elapsed={elapsed} />
+                    <PlayerLine game={featured} side="white" elapsed={elapsed} />
+                    <div className="flex flex-wrap gap-2 text-sm text-gray-600">
+                      <Badge variant="secondary" className="capitalize">{featured.ratingCategory}</Badge>
+                      <span>{describeGame(featured)}</span>
+                      {featured.averageRating !== undefined && (
+                        <span>• average {Math.round(featured.averageRating)}</span>
+                      )}
+                    </div>
+                    {featured.openingName && <p className="text-sm text-gray-600">{featured.openingName}</p>}
+                    <Button onClick={() => setLocation(`/game/${featured._id}`)}>
+                      <Eye className="w-4 h-4 mr-2" />
+                      Watch
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {others.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {others.map((game) => (
+                  <Card
+                    key={game._id}
+                    className="cursor-pointer hover:shadow-md transition-shadow"
+                    onClick={() => setLocation(`/game/${game._id}`)}
+                  >
+                    <CardContent className="pt-4 space-y-2">
+                      <PlayerLine game={game} side="black" elapsed={elapsed} />
+                      <img src={getBoardUrl(game, false)} alt="Game position" className="w-full rounded" loading="lazy" />
+                      <PlayerLine game={game} side="white" elapsed={elapsed} />
+                      <div className="flex justify-between text-xs text-gray-500">
+                        <span className="capitalize">{game.ratingCategory} • {describeGame(game)}</span>
+                        {game.averageRating !== undefined && <span>avg {Math.round(game.averageRating)}</span>}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import path from "path";
+import { Chess } from "chess.js";
+import type { AnalyzedMove, GameAnalysis, MoveClassification } from "@shared/schema";
+import { storage } from "./storage";
+import type { BotPersonality } from "./bot";
+import { BotQueueFullError, requestBotMove } from "./botPool";
+import { getConfiguredEngine } from "./engine";
+import { getStartFen } from "@shared/position";
+
+// Analysis borrows the bot worker pool, searching at full strength with no
+// opening book and no deliberate blunders
+const ANALYSIS_PERSONALITY: BotPersonality = {
+  targetElo: 3200,
+  blunderRate: 0,
+  style: "balanced",
+  openingRepertoire: [],
+};
+const ANALYSIS_MOVE_TIME_MS = 1000;
+const QUEUE_RETRY_DELAY_MS = 1000;
+
+// Mates are stored as this many centipawns either way
+const MATE_SCORE = 10000;
+// Past this everything is simply winning; without the cap, converting a won
+// position slowly would be flagged as a string of blunders
+const MAX_COUNTED_EVALUATION = 1000;
+
+// Centipawns a move must lose to earn each label, worst first
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ["blunder", 300],
+  ["mistake", 100],
+  ["inaccuracy", 50],
+];
+
+interface PositionEvaluation {
+  evaluation?: number; // centipawns, white's point of view
+  bestMove?: string;
+}
+
+// Games waiting to be analysed. They run one at a time so bot games always
+// have most of the worker pool.
+const queue: string[] = [];
+let running = false;
+
+// Shown to players, so external engines go by their binary's name only
+function getEngineLabel(): string {
+  const { name } = getConfiguredEngine();
+  return name.startsWith("uci:") ? path.basename(name.slice("uci:".length)) : name;
+}
+
+function toCentipawns(pawns?: number): number | undefined {
+  if (pawns === undefined) return undefined;
+  if (Math.abs(pawns) >= 100) return pawns > 0 ? MATE_SCORE : -MATE_SCORE;
+  return Math.round(pawns * 100);
+}
+
+async function evaluatePosition(fen: string): Promise<PositionEvaluation> {
+  const chess = new Chess(fen);
+  if (chess.moves().length === 0) {
+    if (!chess.isCheckmate()) return { evaluation: 0 };
+    return { evaluation: chess.turn() === "w" ? -MATE_SCORE : MATE_SCORE };
+  }
+
+  for (;;) {
+    try {
+      const botMove = await requestBotMove(fen, ANALYSIS_PERSONALITY, ANALYSIS_MOVE_TIME_MS);
+      return { evaluation: toCentipawns(botMove.evaluation), bestMove: botMove.move };
+    } catch (error) {
+      if (!(error instanceof BotQueueFullError)) throw error;
+      await new Promise((resolve) => setTimeout(resolve, QUEUE_RETRY_DELAY_MS));
+    }
+  }
+}
+
+function clampEvaluation(evaluation: number): number {
+  return Math.max(-MAX_COUNTED_EVALUATION, Math.min(MAX_COUNTED_EVALUATION, evaluation));
+}
+
+// How many centipawns the mover gave away compared with the position before
+function getLoss(before: PositionEvaluation, after: PositionEvaluation, whiteMoved: boolean): number | undefined {
+  if (before.evaluation === undefined || after.evaluation === undefined) return undefined;
+  const loss = clampEvaluation(before.evaluation) - clampEvaluation(after.evaluation);
+  return Math.max(0, whiteMoved ? loss : -loss);
+}
+
+function classify(loss: number): MoveClassification | undefined {
+  return CLASSIFICATION_THRESHOLDS.find(([, threshold]) => loss >= threshold)?.[0];
+}
+
+function average(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+async function analyzeGame(gameId: string) {
+  const game = await storage.getGame(gameId);
+  if (!game) {
+    await storage.updateGameAnalysis(gameId, { status: "failed", error: "Game not found" });
+    return;
+  }
+
+  const moves = await storage.getGameMoves(gameId);
+  const fens = [getStartFen(game), ...moves.map((move) => move.fen)];
+  await storage.updateGameAnalysis(gameId, { status: "running", engine: getEngineLabel(), progress: 0 });
+
+  const positions: PositionEvaluation[] = [];
+  for (const fen of fens) {
+    positions.push(await evaluatePosition(fen));
+    await storage.updateGameAnalysis(gameId, { progress: positions.length / fens.length });
+  }
+
+  const losses: Record<"white" | "black", number[]> = { white: [], black: [] };
+  const analyzedMoves: AnalyzedMove[] = moves.map((move, i) => {
+    const before = positions[i];
+    const after = positions[i + 1];
+    const whiteMoved = fens[i].split(" ")[1] === "w";
+
+    // Playing the engine's own choice is never a mistake, whatever the
+    // deeper search of the next position thinks of it
+    const loss = move.move === before.bestMove ? 0 : getLoss(before, after, whiteMoved);
+    if (loss !== undefined) losses[whiteMoved ? "white" : "black"].push(loss);
+
+    return {
+      ply: i + 1,
+      move: move.move,
+      evaluation: after.evaluation,
+      bestMove: before.bestMove,
+      classification: loss === undefined ? undefined : classify(loss),
+    };
+  });
+
+  await storage.updateGameAnalysis(gameId, {
+    status: "completed",
+    progress: 1,
+    initialEvaluation: positions[0].evaluation,
+    moves: analyzedMoves,
+    whiteAverageLoss: average(losses.white),
+    blackAverageLoss: average(losses.black),
+    completedAt: new Date(),
+  });
+}
+
+async function processQueue() {
+  if (running) return;
+  running = true;
+  try {
+    while (queue.length > 0) {
+      const gameId = queue.shift()!;
+      try {
+        await analyzeGame(gameId);
+      } catch (error) {
+        console.error(`Error analysing game ${gameId}:`, error);
+        await storage.updateGameAnalysis(gameId, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        }).catch(() => {});
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+function enqueue(gameId: string) {
+  if (!queue.includes(gameId)) queue.push(gameId);
+  processQueue().catch((error) => console.error("Error running analysis queue:", error));
+}
+
+// Queue a (fresh) analysis of a finished game. The job runs in the
+// background; progress is stored on the analysis record as it goes.
+export async function requestAnalysis(gameId: string): Promise<GameAnalysis> {
+  const analysis = await storage.resetGameAnalysis(gameId);
+  enqueue(gameId);
+  return analysis;
+}
+
+// The queue lives in memory, so pick up analyses cut off by a restart
+export async function resumeAnalyses() {
+  try {
+    const analyses = await storage.getUnfinishedAnalyses();
+    for (const analysis of analyses) {
+      enqueue(analysis.gameId);
+    }
+  } catch (error) {
+    console.error("Error resuming analyses:", error);
+  }
+}
@@ -0,0 +1,308 @@
+import { Chess, type Square } from "chess.js";
+import { renderAsync } from "@resvg/resvg-js";
+import gifenc from "gifenc";
+import type { Game, GameMove } from "@shared/schema";
+import { getStartFen } from "@shared/position";
+import { createModuleWorker } from "./workerThread";
+
+// Board images for link previews and sharing. Boards are drawn as SVG with
+// the pieces as vector paths, so nothing depends on the fonts installed on
+// the server; PNG and GIF frames are rasterised from the same SVG.
+
+const { GIFEncoder, applyPalette, quantize } = gifenc;
+
+const SQUARE_SIZE = 45; // the piece paths below are drawn on a 45x45 grid
+const BOARD_SIZE = SQUARE_SIZE * 8;
+
+// Same colours as the board in the client
+const LIGHT_SQUARE = "#fef3c7";
+const DARK_SQUARE = "#92400e";
+const LAST_MOVE_HIGHLIGHT = "#facc15";
+const ARROW_COLOR = "#15803d";
+
+export interface BoardMove {
+  from: Square;
+  to: Square;
+}
+
+export interface BoardImageOptions {
+  fen: string;
+  orientation?: "white" | "black";
+  lastMove?: BoardMove;
+  arrows?: BoardMove[];
+  coordinates?: boolean;
+}
+
+// "e2e4" -> { from: "e2", to: "e4" }
+export function parseBoardMove(move: string): BoardMove {
+  return { from: move.slice(0, 2) as Square, to: move.slice(2, 4) as Square };
+}
+
+function circle(cx: number, cy: number, r: number): string {
+  return `M ${cx - r},${cy} a ${r},${r} 0 1 0 ${2 * r},0 a ${r},${r} 0 1 0 ${-2 * r},0 Z`;
+}
+
+// Filled outlines, plus inner lines drawn in the opposite colour
+interface PieceArt {
+  shapes: string[];
+  details?: string;
+}
+
+const BASE = "M 11,36 H 34 V 39.5 H 11 Z";
+
+const PIECES: Record<string, PieceArt> = {
+  p: {
+    shapes: [
+      "M 22.5,10 C 20.3,10 18.5,11.8 18.5,14 C 18.5,15.2 19,16.3 19.9,17 C 18,18 16.8,19.8 16.8,22 C 16.8,23.9 17.7,25.6 19.1,26.6 C 16,28 12.5,31.5 12.5,38.5 L 32.5,38.5 C 32.5,31.5 29,28 25.9,26.6 C 27.3,25.6 28.2,23.9 28.2,22 C 28.2,19.8 27,18 25.1,17 C 26,16.3 26.5,15.2 26.5,14 C 26.5,11.8 24.7,10 22.5,10 Z",
+    ],
+  },
+  r: {
+    shapes: [
+      "M 11,39.5 H 34 V 36 H 31 L 29.5,31 V 17 L 32,14.5 V 9 H 28 V 12 H 24.5 V 9 H 20.5 V 12 H 17 V 9 H 13 V 14.5 L 15.5,17 V 31 L 14,36 H 11 Z",
+    ],
+    details: "M 15.5,17 H 29.5 M 15.5,31 H 29.5 M 14,36 H 31",
+  },
+  n: {
+    shapes: [
+      BASE,
+      "M 14,36 H 32 C 32,28 31.5,21 29.5,16.5 C 27.5,12 24,9.5 20,10 L 19,7 L 16.5,10.5 C 13.5,13 11,17 10,21 C 9.5,23 10.5,24.5 12.5,24.5 C 14.5,24.5 16,23 19,22 C 20,23 20,24.5 19,26 C 16.5,29 14.5,32 14,36 Z",
+    ],
+    details: circle(15.5, 15, 1),
+  },
+  b: {
+    shapes: [
+      BASE,
+      "M 15,36 C 15,31.5 17,29.5 18.5,27.5 C 14.5,24.5 14.5,18 22.5,11 C 30.5,18 30.5,24.5 26.5,27.5 C 28,29.5 30,31.5 30,36 Z",
+      circle(22.5, 8.5, 2.5),
+    ],
+    details: "M 18.5,27.5 H 26.5 M 22.5,16.5 V 22.5 M 19.5,19.5 H 25.5",
+  },
+  q: {
+    shapes: [
+      BASE,
+      "M 11,36 L 9,16.5 L 15.5,28 L 16,13.5 L 20.5,27 L 22.5,11.5 L 24.5,27 L 29,13.5 L 29.5,28 L 36,16.5 L 34,36 Z",
+      circle(9, 14.5, 2),
+      circle(16, 11.5, 2),
+      circle(22.5, 9.5, 2),
+      circle(29, 11.5, 2),
+      circle(36, 14.5, 2),
+    ],
+    details: "M 12,32.5 H 33",
+  },
+  k: {
+    shapes: [
+      BASE,
+      "M 11.5,36 C 9.5,30 8,24.5 12,21.5 C 16,18.5 20,21 22.5,24.5 C 25,21 29,18.5 33,21.5 C 37,24.5 35.5,30 33.5,36 Z",
+      "M 22.5,24.5 C 19.5,20.5 20,16 22.5,14.5 C 25,16 25.5,20.5 22.5,24.5 Z",
+      "M 21.5,6 H 23.5 V 8.5 H 26 V 10.5 H 23.5 V 14 H 21.5 V 10.5 H 19 V 8.5 H 21.5 Z",
+    ],
+    details: "M 12,32.5 H 33",
+  },
+};
+
+// Top-left corner of a square as seen from `orientation`
+function squareOrigin(square: Square, orientation: "white" | "black"): { x: number; y: number } {
+  const file = square.charCodeAt(0) - 97;
+  const rank = parseInt(square[1], 10) - 1;
+  return orientation === "white"
+    ? { x: file * SQUARE_SIZE, y: (7 - rank) * SQUARE_SIZE }
+    : { x: (7 - file) * SQUARE_SIZE, y: rank * SQUARE_SIZE };
+}
+
+function isLightSquare(square: Square): boolean {
+  return (square.charCodeAt(0) - 97 + parseInt(square[1], 10) - 1) % 2 === 1;
+}
+
+function renderPiece(type: string, color: "w" | "b", x: number, y: number): string {
+  const art = PIECES[type];
+  const fill = color === "w" ? "#ffffff" : "#1f2937";
+  const detail = color === "w" ? "#1f2937" : "#ffffff";
+  const shapes = art.shapes.map((d) => `<path d="${d}"/>`).join("");
+  const details = art.details ? `<path d="${art.details}" fill="none" stroke="${detail}"/>` : "";
+  return `<g transform="translate(${x},${y})" fill="${fill}" stroke="#1f2937" stroke-width="1.5" stroke-linejoin="round" stroke-linecap="round">${shapes}${details}</g>`;
+}
+
+function renderArrow({ from, to }: BoardMove, orientation: "white" | "black"): string {
+  const start = squareOrigin(from, orientation);
+  const end = squareOrigin(to, orientation);
+  const x1 = start.x + SQUARE_SIZE / 2;
+  const y1 = start.y + SQUARE_SIZE / 2;
+  const x2 = end.x + SQUARE_SIZE / 2;
+  const y2 = end.y + SQUARE_SIZE / 2;
+
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length === 0) return "";
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+
+  // The shaft stops where the head begins so the two don't overlap
+  const headLength = 16;
+  const headHalfWidth = 10;
+  const baseX = x2 - ux * headLength;
+  const baseY = y2 - uy * headLength;
+  const head = [
+    `${x2},${y2}`,
+    `${baseX - uy * headHalfWidth},${baseY + ux * headHalfWidth}`,
+    `${baseX + uy * headHalfWidth},${baseY - ux * headHalfWidth}`,
+  ].join(" ");
+
+  return `<g opacity="0.8" fill="${ARROW_COLOR}" stroke="${ARROW_COLOR}">`
+    + `<line x1="${x1}" y1="${y1}" x2="${baseX}" y2="${baseY}" stroke-width="7" stroke-linecap="round"/>`
+    + `<polygon points="${head}" stroke="none"/></g>`;
+}
+
+export function renderBoardSvg({ fen, orientation = "white", lastMove, arrows = [], coordinates = true }: BoardImageOptions): string {
+  const chess = new Chess(fen);
+  const parts: string[] = [];
+
+  // Squares, with the last move and coordinates on top of them
+  for (let rank = 1; rank <= 8; rank++) {
+    for (let file = 0; file < 8; file++) {
+      const square = `${String.fromCharCode(97 + file)}${rank}` as Square;
+      const { x, y } = squareOrigin(square, orientation);
+      const light = isLightSquare(square);
+      parts.push(`<rect x="${x}" y="${y}" width="${SQUARE_SIZE}" height="${SQUARE_SIZE}" fill="${light ? LIGHT_SQUARE : DARK_SQUARE}"/>`);
+
+      if (lastMove && (square === lastMove.from || square === lastMove.to)) {
+        parts.push(`<rect x="${x}" y="${y}" width="${SQUARE_SIZE}" height="${SQUARE_SIZE}" fill="${LAST_MOVE_HIGHLIGHT}" opacity="0.5"/>`);
+      }
+
+      if (coordinates) {
+        const textColor = light ? DARK_SQUARE : LIGHT_SQUARE;
+        const leftEdge = orientation === "white" ? file === 0 : file === 7;
+        const bottomEdge = orientation === "white" ? rank === 1 : rank === 8;
+        if (leftEdge) {
+          parts.push(`<text x="${x + 2}" y="${y + 10}" fill="${textColor}">${rank}</text>`);
+        }
+        if (bottomEdge) {
+          parts.push(`<text x="${x + SQUARE_SIZE - 2}" y="${y + SQUARE_SIZE - 3}" fill="${textColor}" text-anchor="end">${square[0]}</text>`);
+        }
+      }
+    }
+  }
+
+  for (const row of chess.board()) {
+    for (const piece of row) {
+      if (!piece) continue;
+      const { x, y } = squareOrigin(piece.square, orientation);
+      parts.push(renderPiece(piece.type, piece.color, x, y));
+    }
+  }
+
+  for (const arrow of arrows) {
+    parts.push(renderArrow(arrow, orientation));
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${BOARD_SIZE} ${BOARD_SIZE}" width="${BOARD_SIZE}" height="${BOARD_SIZE}" font-family="DejaVu Sans, Arial, sans-serif" font-size="9" font-weight="bold">${parts.join("")}</svg>`;
+}
+
+// Rendering runs on libuv's thread pool rather than the event loop
+async function rasterise(svg: string, size: number) {
+  return renderAsync(svg, { fitTo: { mode: "width", value: size }, logLevel: "off" });
+}
+
+export async function renderBoardPng(options: BoardImageOptions, size: number): Promise<Buffer> {
+  return (await rasterise(renderBoardSvg(options), size)).asPng();
+}
+
+// A long game is sampled down to this many frames, evenly spaced but always
+// ending on the final position
+const MAX_GIF_FRAMES = 150;
+// Renders at once; each holds a worker thread until its GIF is done
+const MAX_CONCURRENT_GIF_RENDERS = 2;
+const GIF_RENDER_TIMEOUT_MS = 60000;
+
+export class GifRenderBusyError extends Error {
+  constructor() {
+    super("Too many animations are being rendered");
+  }
+}
+
+export interface GifJob {
+  frames: BoardImageOptions[];
+  size: number;
+  delay: number; // milliseconds per frame
+}
+
+export type GifJobResult = { gif: Uint8Array } | { error: string };
+
+let activeGifRenders = 0;
+
+function sampleFrames(frames: BoardImageOptions[]): BoardImageOptions[] {
+  if (frames.length <= MAX_GIF_FRAMES) return frames;
+  const step = (frames.length - 1) / (MAX_GIF_FRAMES - 1);
+  return Array.from({ length: MAX_GIF_FRAMES }, (_, i) => frames[Math.round(i * step)]);
+}
+
+// Run by gifWorker.ts: rasterising and colour quantisation are CPU-bound, so
+// they stay off the main event loop. The final frame is held longer before
+// the animation loops.
+export async function encodeGif({ frames, size, delay }: GifJob): Promise<Uint8Array> {
+  const gif = GIFEncoder();
+  for (let i = 0; i < frames.length; i++) {
+    const image = await rasterise(renderBoardSvg(frames[i]), size);
+    const palette = quantize(image.pixels, 256);
+    const index = applyPalette(image.pixels, palette);
+    const isLast = i === frames.length - 1;
+    gif.writeFrame(index, image.width, image.height, { palette, delay: isLast ? delay * 4 : delay });
+  }
+  gif.finish();
+
+  return gif.bytes();
+}
+
+function runGifWorker(job: GifJob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const worker = createModuleWorker("gifWorker");
+    const finish = (error: Error | null, gif?: Uint8Array) => {
+      clearTimeout(timer);
+      worker.removeAllListeners();
+      worker.terminate().catch(() => {});
+      if (error) reject(error);
+      else resolve(gif!);
+    };
+    const timer = setTimeout(() => finish(new Error("GIF worker timed out")), GIF_RENDER_TIMEOUT_MS);
+
+    worker.on("message", (result: GifJobResult) => {
+      if ("error" in result) finish(new Error(result.error));
+      else finish(null, result.gif);
+    });
+    worker.on("error", (error) => finish(error));
+    worker.on("exit", (code) => finish(new Error(`GIF worker exited with code ${code}`)));
+    worker.postMessage(job);
+  });
+}
+
+// The game as an animated GIF: the starting position, then one frame per
+// move with that move highlighted. Rejects with GifRenderBusyError when too
+// many animations are already being rendered.
+export async function renderGameGif(
+  game: Game,
+  moves: GameMove[],
+  { orientation = "white", coordinates = true, size, delay }: Pick<BoardImageOptions, "orientation" | "coordinates"> & { size: number; delay: number },
+): Promise<Buffer> {
+  if (activeGifRenders >= MAX_CONCURRENT_GIF_RENDERS) {
+    throw new GifRenderBusyError();
+  }
+
+  const startFen = getStartFen(game);
+  const chess = new Chess(startFen);
+  const frames: BoardImageOptions[] = [{ fen: startFen, orientation, coordinates }];
+
+  for (const move of moves) {
+    try {
+      const played = chess.move(move.move);
+      frames.push({ fen: chess.fen(), orientation, coordinates, lastMove: { from: played.from, to: played.to } });
+    } catch {
+      break; // a move that doesn't replay; show the game up to there
+    }
+  }
+
+  activeGifRenders++;
+  try {
+    const gif = await runGifWorker({ frames: sampleFrames(frames), size, delay });
+    return Buffer.from(gif.buffer, gif.byteOffset, gif.byteLength);
+  } finally {
+    activeGifRenders--;
+  }
+}
@@ -1,161 +1,407 @@
+import { Chess, type Move, type PieceSymbol } from "chess.js";
+import type { BotStyle } from "@shared/schema";
 
-import { Chess } from "chess.js";
+// What the engines need to know about a bot (see BotProfile in the schema)
+export interface BotPersonality {
+  targetElo: number;
+  blunderRate: number;
+  style: BotStyle;
+  openingRepertoire: string[];
+}
 
 export interface BotMove {
   move: string;
   evaluation?: number;
 }
 
+interface SearchSettings {
+  maxDepth: number;
+  timeLimit: number; // milliseconds
+  randomness: number; // centipawns of noise added to each root move
+}
+
+// Rough calibration of search effort against playing strength. Weaker bots
+// are held back with shallow searches and noise on the root scores, so they
+// pick reasonable but imperfect moves.
+export function getSearchSettings(targetElo: number): SearchSettings {
+  if (targetElo < 1000) return { maxDepth: 1, timeLimit: 300, randomness: 250 };
+  if (targetElo < 1400) return { maxDepth: 2, timeLimit: 600, randomness: 100 };
+  if (targetElo < 1800) return { maxDepth: 3, timeLimit: 1000, randomness: 40 };
+  if (targetElo < 2100) return { maxDepth: 5, timeLimit: 2000, randomness: 10 };
+  return { maxDepth: 64, timeLimit: 3000, randomness: 0 };
+}
+
+// Style bonuses in centipawns per minor or major piece
+const AGGRESSIVE_ADVANCE_BONUS = 10; // standing in the opponent's half
+const DEFENSIVE_SHELTER_BONUS = 8; // within two squares of its own king
+const POSITIONAL_TABLE_WEIGHT = 1.5; // multiplier on the piece-square tables
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 0,
+};
+
+// Piece-square tables in centipawns from white's point of view, rank 8 first
+// so they line up with chess.board(). Black pieces read them mirrored.
+const PAWN_TABLE = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+   5,  5, 10, 25, 25, 10,  5,  5,
+   0,  0,  0, 20, 20,  0,  0,  0,
+   5, -5,-10,  0,  0,-10, -5,  5,
+   5, 10, 10,-20,-20, 10, 10,  5,
+   0,  0,  0,  0,  0,  0,  0,  0,
+];
+
+const KNIGHT_TABLE = [
+  -50,-40,-30,-30,-30,-30,-40,-50,
+  -40,-20,  0,  0,  0,  0,-20,-40,
+  -30,  0, 10, 15, 15, 10,  0,-30,
+  -30,  5, 15, 20, 20, 15,  5,-30,
+  -30,  0, 15, 20, 20, 15,  0,-30,
+  -30,  5, 10, 15, 15, 10,  5,-30,
+  -40,-20,  0,  5,  5,  0,-20,-40,
+  -50,-40,-30,-30,-30,-30,-40,-50,
+];
+
+const BISHOP_TABLE = [
+  -20,-10,-10,-10,-10,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5, 10, 10,  5,  0,-10,
+  -10,  5,  5, 10, 10,  5,  5,-10,
+  -10,  0, 10, 10, 10, 10,  0,-10,
+  -10, 10, 10, 10, 10, 10, 10,-10,
+  -10,  5,  0,  0,  0,  0,  5,-10,
+  -20,-10,-10,-10,-10,-10,-10,-20,
+];
+
+const ROOK_TABLE = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+   5, 10, 10, 10, 10, 10, 10,  5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+   0,  0,  0,  5,  5,  0,  0,  0,
+];
+
+const QUEEN_TABLE = [
+  -20,-10,-10, -5, -5,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5,  5,  5,  5,  0,-10,
+   -5,  0,  5,  5,  5,  5,  0, -5,
+    0,  0,  5,  5,  5,  5,  0, -5,
+  -10,  5,  5,  5,  5,  5,  0,-10,
+  -10,  0,  5,  0,  0,  0,  0,-10,
+  -20,-10,-10, -5, -5,-10,-10,-20,
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -20,-30,-30,-40,-40,-30,-30,-20,
+  -10,-20,-20,-20,-20,-20,-20,-10,
+   20, 20,  0,  0,  0,  0, 20, 20,
+   20, 30, 10,  0,  0, 10, 30, 20,
+];
+
+const KING_ENDGAME_TABLE = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
+
+const PIECE_TABLES: Record<Exclude<PieceSymbol, 'k'>, number[]> = {
+  p: PAWN_TABLE, n: KNIGHT_TABLE, b: BISHOP_TABLE, r: ROOK_TABLE, q: QUEEN_TABLE,
+};
+
+// Kings head for the centre once little non-pawn material is left
+const ENDGAME_MATERIAL = 1300;
+
+const MATE_SCORE = 100000;
+const MAX_QUIESCENCE_DEPTH = 8;
+const MAX_TABLE_SIZE = 200000;
+// How often (in nodes) the search looks at the clock
+const TIME_CHECK_INTERVAL = 64;
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  bestMove?: string;
+}
+
+class SearchTimeout extends Error {}
+
 export class ChessBot {
-  private difficulty: 'easy' | 'medium' | 'hard';
+  private settings: SearchSettings;
+  private style: BotStyle;
   private chess: Chess;
+  private table = new Map<string, TableEntry>();
+  private deadline = 0;
+  private nodes = 0;
 
-  constructor(difficulty: 'easy' | 'medium' | 'hard' = 'medium') {
-    this.difficulty = difficulty;
+  constructor(personality: Pick<BotPersonality, 'targetElo' | 'style'>, timeLimit?: number) {
+    this.settings = getSearchSettings(personality.targetElo);
+    this.style = personality.style;
+    if (timeLimit !== undefined) {
+      this.settings.timeLimit = Math.min(this.settings.timeLimit, timeLimit);
+    }
     this.chess = new Chess();
   }
 
-  // Piece values for evaluation
-  private getPieceValue(piece: string): number {
-    const values: { [key: string]: number } = {
-      'p': 1, 'n': 3, 'b': 3, 'r': 5, 'q': 9, 'k': 0,
-      'P': 1, 'N': 3, 'B': 3, 'R': 5, 'Q': 9, 'K': 0
-    };
-    return values[piece] || 0;
-  }
-
-  // Simple position evaluation
+  // Static evaluation in centipawns, positive when white is better
   private evaluatePosition(): number {
     const board = this.chess.board();
-    let evaluation = 0;
+    let material = 0;
+    let positional = 0;
+    let nonPawnMaterial = 0;
+    const kings: { color: 'w' | 'b'; index: number; rank: number; file: number }[] = [];
+    const pieces: { color: 'w' | 'b'; rank: number; file: number }[] = [];
 
     for (let i = 0; i < 8; i++) {
       for (let j = 0; j < 8; j++) {
         const piece = board[i][j];
-        if (piece) {
-          const value = this.getPieceValue(piece.type);
-          if (piece.color === 'w') {
-            evaluation += value;
-          } else {
-            evaluation -= value;
-          }
+        if (!piece) continue;
+
+        const sign = piece.color === 'w' ? 1 : -1;
+        const index = piece.color === 'w' ? i * 8 + j : (7 - i) * 8 + j;
+
+        if (piece.type === 'k') {
+          kings.push({ color: piece.color, index, rank: i, file: j });
+          continue;
+        }
+
+        material += sign * PIECE_VALUES[piece.type];
+        positional += sign * PIECE_TABLES[piece.type][index];
+        if (piece.type !== 'p') {
+          nonPawnMaterial += PIECE_VALUES[piece.type];
+          pieces.push({ color: piece.color, rank: i, file: j });
         }
       }
     }
 
-    return evaluation;
+    const kingTable = nonPawnMaterial <= ENDGAME_MATERIAL ? KING_ENDGAME_TABLE : KING_MIDDLEGAME_TABLE;
+    for (const king of kings) {
+      positional += (king.color === 'w' ? 1 : -1) * kingTable[king.index];
+    }
+
+    return material + this.applyStyle(positional, pieces, kings);
   }
 
-  // Minimax algorithm with alpha-beta pruning
-  private minimax(depth: number, alpha: number, beta: number, isMaximizing: boolean): number {
-    if (depth === 0 || this.chess.isGameOver()) {
-      return this.evaluatePosition();
+  // Nudge the evaluation towards the bot's style of play
+  private applyStyle(
+    positional: number,
+    pieces: { color: 'w' | 'b'; rank: number; file: number }[],
+    kings: { color: 'w' | 'b'; rank: number; file: number }[]
+  ): number {
+    switch (this.style) {
+      case 'positional':
+        return positional * POSITIONAL_TABLE_WEIGHT;
+
+      case 'aggressive':
+        for (const piece of pieces) {
+          // board() rows run from rank 8 (row 0) down to rank 1 (row 7)
+          const inEnemyHalf = piece.color === 'w' ? piece.rank < 4 : piece.rank >= 4;
+          if (inEnemyHalf) positional += (piece.color === 'w' ? 1 : -1) * AGGRESSIVE_ADVANCE_BONUS;
+        }
+        return positional;
+
+      case 'defensive':
+        for (const piece of pieces) {
+          const king = kings.find((k) => k.color === piece.color);
+          if (king && Math.max(Math.abs(king.rank - piece.rank), Math.abs(king.file - piece.file)) <= 2) {
+            positional += (piece.color === 'w' ? 1 : -1) * DEFENSIVE_SHELTER_BONUS;
+          }
+        }
+        return positional;
+
+      default:
+        return positional;
     }
+  }
 
-    const moves = this.chess.moves();
-    
-    if (isMaximizing) {
-      let maxEval = -Infinity;
-      for (const move of moves) {
-        this.chess.move(move);
-        const evaluation = this.minimax(depth - 1, alpha, beta, false);
-        this.chess.undo();
-        maxEval = Math.max(maxEval, evaluation);
-        alpha = Math.max(alpha, evaluation);
-        if (beta <= alpha) break;
-      }
-      return maxEval;
-    } else {
-      let minEval = Infinity;
-      for (const move of moves) {
-        this.chess.move(move);
-        const evaluation = this.minimax(depth - 1, alpha, beta, true);
-        this.chess.undo();
-        minEval = Math.min(minEval, evaluation);
-        beta = Math.min(beta, evaluation);
-        if (beta <= alpha) break;
-      }
-      return minEval;
+  // Evaluation from the point of view of the side to move, as negamax wants
+  private evaluateForSideToMove(): number {
+    const evaluation = this.evaluatePosition();
+    return this.chess.turn() === 'w' ? evaluation : -evaluation;
+  }
+
+  // Best move from the table first, then captures by most valuable victim /
+  // least valuable attacker, then promotions and checks, then quiet moves.
+  private orderMoves(moves: Move[], bestMove?: string): Move[] {
+    const score = (move: Move) => {
+      if (move.san === bestMove) return 1000000;
+      let value = 0;
+      if (move.captured) value += 10000 + PIECE_VALUES[move.captured] * 10 - PIECE_VALUES[move.piece];
+      if (move.promotion) value += 9000 + PIECE_VALUES[move.promotion];
+      if (move.san.includes('+')) value += 500;
+      return value;
+    };
+
+    return moves
+      .map((move) => ({ move, order: score(move) }))
+      .sort((a, b) => b.order - a.order)
+      .map(({ move }) => move);
+  }
+
+  private checkTime() {
+    if (++this.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() > this.deadline) {
+      throw new SearchTimeout();
     }
   }
 
-  // Get best move based on difficulty
-  public getBestMove(fen: string): BotMove {
-    this.chess.load(fen);
-    const moves = this.chess.moves();
-    
+  private makeMove(move: Move) {
+    this.chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+  }
+
+  // Only captures and promotions are searched past the horizon, so the search
+  // never stops in the middle of an exchange.
+  private quiescence(alpha: number, beta: number, qDepth: number): number {
+    this.checkTime();
+
+    const standPat = this.evaluateForSideToMove();
+    if (standPat >= beta || qDepth >= MAX_QUIESCENCE_DEPTH) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const captures = this.chess.moves({ verbose: true }).filter((move) => move.captured || move.promotion);
+    for (const move of this.orderMoves(captures)) {
+      this.makeMove(move);
+      const score = -this.quiescence(-beta, -alpha, qDepth + 1);
+      this.chess.undo();
+
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    return alpha;
+  }
+
+  // Negamax with alpha-beta pruning and a transposition table
+  private negamax(depth: number, alpha: number, beta: number, ply: number): number {
+    this.checkTime();
+
+    if (ply > 0 && this.chess.isDraw()) return 0;
+
+    const moves = this.chess.moves({ verbose: true });
     if (moves.length === 0) {
-      throw new Error("No legal moves available");
+      // Prefer the quickest mate and the slowest loss
+      return this.chess.isCheck() ? -MATE_SCORE + ply : 0;
     }
 
-    switch (this.difficulty) {
-      case 'easy':
-        return this.getRandomMove();
-      
-      case 'medium':
-        return this.getMediumMove();
-      
-      case 'hard':
-        return this.getHardMove();
-      
-      default:
-        return this.getRandomMove();
+    if (depth <= 0) {
+      return this.quiescence(alpha, beta, 0);
     }
-  }
 
-  private getRandomMove(): BotMove {
-    const moves = this.chess.moves();
-    const randomMove = moves[Math.floor(Math.random() * moves.length)];
-    return { move: randomMove };
-  }
+    const key = this.chess.hash();
+    const entry = this.table.get(key);
+    if (entry && entry.depth >= depth && ply > 0) {
+      if (entry.bound === 'exact') return entry.score;
+      if (entry.bound === 'lower' && entry.score >= beta) return entry.score;
+      if (entry.bound === 'upper' && entry.score <= alpha) return entry.score;
+    }
 
-  private getMediumMove(): BotMove {
-    const moves = this.chess.moves();
-    let bestMove = moves[0];
-    let bestEvaluation = -Infinity;
-
-    // Look for captures and checks first
-    for (const move of moves) {
-      this.chess.move(move);
-      let evaluation = this.evaluatePosition();
-      
-      // Bonus for checks
-      if (this.chess.isCheck()) {
-        evaluation += 0.5;
-      }
-      
-      // Add some randomness for medium difficulty
-      evaluation += (Math.random() - 0.5) * 2;
-      
-      if (evaluation > bestEvaluation) {
-        bestEvaluation = evaluation;
-        bestMove = move;
+    const originalAlpha = alpha;
+    let bestScore = -Infinity;
+    let bestMove: string | undefined;
+
+    for (const move of this.orderMoves(moves, entry?.bestMove)) {
+      this.makeMove(move);
+      const score = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+      this.chess.undo();
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move.san;
       }
-      
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+
+    if (this.table.size >= MAX_TABLE_SIZE) {
+      this.table.clear();
+    }
+    this.table.set(key, {
+      depth,
+      score: bestScore,
+      bound: bestScore <= originalAlpha ? 'upper' : bestScore >= beta ? 'lower' : 'exact',
+      bestMove,
+    });
+
+    return bestScore;
+  }
+
+  // One full-depth pass over the root moves. With randomness every move gets
+  // an exact score so the noise is applied to comparable numbers.
+  private searchRoot(moves: Move[], depth: number, previousBest?: string): { move: string; score: number } {
+    const { randomness } = this.settings;
+    let alpha = -Infinity;
+    let best = { move: moves[0].san, score: -Infinity, noisy: -Infinity };
+
+    for (const move of this.orderMoves(moves, previousBest)) {
+      this.makeMove(move);
+      const score = -this.negamax(depth - 1, -Infinity, randomness > 0 ? Infinity : -alpha, 1);
       this.chess.undo();
+
+      const noisy = score + (Math.random() - 0.5) * 2 * randomness;
+      if (noisy > best.noisy) {
+        best = { move: move.san, score, noisy };
+      }
+      if (score > alpha) alpha = score;
     }
 
-    return { move: bestMove, evaluation: bestEvaluation };
+    return { move: best.move, score: best.score };
   }
 
-  private getHardMove(): BotMove {
-    const moves = this.chess.moves();
-    let bestMove = moves[0];
-    let bestEvaluation = -Infinity;
-    const isWhite = this.chess.turn() === 'w';
-
-    for (const move of moves) {
-      this.chess.move(move);
-      const evaluation = this.minimax(3, -Infinity, Infinity, !isWhite);
-      
-      if (evaluation > bestEvaluation) {
-        bestEvaluation = evaluation;
-        bestMove = move;
+  // Iterative deepening: search one ply deeper each pass until the depth or
+  // time limit is reached, keeping the result of the last completed pass.
+  public getBestMove(fen: string): BotMove {
+    this.chess.load(fen);
+    const moves = this.chess.moves({ verbose: true });
+
+    if (moves.length === 0) {
+      throw new Error("No legal moves available");
+    }
+
+    this.table.clear();
+    this.nodes = 0;
+    const deadline = Date.now() + this.settings.timeLimit;
+
+    let best = { move: moves[0].san, score: this.evaluateForSideToMove() };
+
+    for (let depth = 1; depth <= this.settings.maxDepth; depth++) {
+      // The first pass always finishes so there is a searched move to play
+      this.deadline = depth === 1 ? Infinity : deadline;
+      try {
+        best = this.searchRoot(moves, depth, best.move);
+      } catch (error) {
+        if (!(error instanceof SearchTimeout)) throw error;
+        // Put the board back where the aborted search left it
+        this.chess.load(fen);
+        break;
       }
-      
-      this.chess.undo();
+
+      // No point searching deeper once a forced mate has been found
+      if (Math.abs(best.score) > MATE_SCORE - 1000) break;
     }
 
-    return { move: bestMove, evaluation: bestEvaluation };
+    const whiteScore = this.chess.turn() === 'w' ? best.score : -best.score;
+    return { move: best.move, evaluation: this.toPawns(whiteScore) };
+  }
+
+  private toPawns(score: number): number {
+    if (score > MATE_SCORE - 1000) return 100;
+    if (score < -MATE_SCORE + 1000) return -100;
+    return Math.round(score) / 100;
   }
 }
@@ -0,0 +1,134 @@
+import { Chess } from "chess.js";
+import type { Game } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcastGameEvent } from "./gameSocket";
+import { endGame, getGameOverTermination, isBotPlayer } from "./gameResults";
+import { checkFlagFall, getClockAfterMove, getLiveClock, scheduleFlagCheck } from "./clock";
+import { BotQueueFullError, requestBotMove } from "./botPool";
+import { getBotPersonality } from "./botProfiles";
+import { getOpeningUpdate } from "./openings";
+import { getPgnAfterMove } from "./pgn";
+
+const QUEUE_RETRY_DELAY_MS = 1000;
+const MIN_MOVE_TIME_MS = 100;
+// Share of the remaining clock the bot is willing to spend on one move
+const MOVES_TO_BUDGET_FOR = 30;
+
+// Games with a bot search in flight, so a position is never searched twice
+const thinkingGames = new Set<string>();
+
+export function getBotToMove(game: Game): string | undefined {
+  const playerId = game.currentTurn === 'white' ? game.whitePlayerId : game.blackPlayerId;
+  return isBotPlayer(playerId) ? playerId : undefined;
+}
+
+// The bot pays for its own thinking time like any other player, so it budgets
+// a slice of what is left on its clock plus whatever it gets back per move.
+function getMoveTimeBudget(game: Game): number {
+  const clock = getLiveClock(game);
+  const remaining = game.currentTurn === 'white' ? clock.whiteTimeRemaining : clock.blackTimeRemaining;
+  const perMove = remaining / MOVES_TO_BUDGET_FOR + (game.timeIncrement || 0) + (game.timeDelay || 0);
+  return Math.max(MIN_MOVE_TIME_MS, Math.floor(perMove * 1000));
+}
+
+async function applyBotMove(game: Game, san: string) {
+  const gameId = game._id.toString();
+  const movedAt = new Date();
+
+  // The bot can flag while thinking just like a human
+  if (await checkFlagFall(game, movedAt)) return;
+
+  const chess = new Chess(game.fen);
+  const move = chess.move(san);
+  const clock = getClockAfterMove(game, movedAt);
+  const timeRemaining = game.currentTurn === 'white' ? clock.whiteTimeRemaining : clock.blackTimeRemaining;
+  const opening = getOpeningUpdate(chess.fen());
+  const pgn = await getPgnAfterMove(game, move.san, timeRemaining, opening);
+
+  const gameMove = await storage.addGameMove({
+    gameId,
+    moveNumber: (game.moveCount || 0) + 1,
+    move: move.san,
+    fen: chess.fen(),
+    timeRemaining,
+  });
+
+  let updatedGame = await storage.updateGame(gameId, {
+    fen: chess.fen(),
+    currentTurn: game.currentTurn === 'white' ? 'black' : 'white',
+    moveCount: (game.moveCount || 0) + 1,
+    whiteTimeRemaining: clock.whiteTimeRemaining,
+    blackTimeRemaining: clock.blackTimeRemaining,
+    lastMoveAt: movedAt,
+    pgn,
+    ...opening,
+  });
+
+  broadcastGameEvent({ type: 'move', gameId, move: gameMove, game: updatedGame });
+
+  if (chess.isGameOver()) {
+    const result = chess.isCheckmate()
+      ? (game.currentTurn === 'white' ? 'white_wins' : 'black_wins')
+      : 'draw';
+    updatedGame = await endGame(updatedGame, result, getGameOverTermination(chess)!) || updatedGame;
+  } else {
+    scheduleFlagCheck(updatedGame);
+  }
+}
+
+// Have the bot reply if it is the bot's turn. The search runs on a worker
+// thread and the move reaches the players through the game socket, so callers
+// should not wait on this.
+export async function playBotMove(gameId: string): Promise<void> {
+  if (thinkingGames.has(gameId)) return;
+
+  const game = await storage.getGame(gameId);
+  if (!game || game.status !== 'active') return;
+
+  const botId = getBotToMove(game);
+  if (!botId) return;
+
+  thinkingGames.add(gameId);
+  try {
+    const personality = await getBotPersonality(botId);
+    if (!personality) {
+      console.error(`No bot profile for ${botId}`);
+      return;
+    }
+
+    let botMove;
+    try {
+      botMove = await requestBotMove(game.fen, personality, getMoveTimeBudget(game));
+    } catch (error) {
+      if (error instanceof BotQueueFullError) {
+        setTimeout(() => {
+          playBotMove(gameId).catch((error) => console.error("Error making bot move:", error));
+        }, QUEUE_RETRY_DELAY_MS);
+        return;
+      }
+      throw error;
+    }
+
+    // The game may have ended or moved on (resignation, flag fall) meanwhile
+    const current = await storage.getGame(gameId);
+    if (!current || current.status !== 'active' || current.fen !== game.fen) return;
+
+    await applyBotMove(current, botMove.move);
+  } finally {
+    thinkingGames.delete(gameId);
+  }
+}
+
+// Bot searches live in memory, so restart any that were cut off by a restart
+export async function resumeBotMoves() {
+  try {
+    const games = await storage.getActiveGames();
+    for (const game of games) {
+      if (getBotToMove(game)) {
+        playBotMove(game._id.toString()).catch((error) => console.error("Error making bot move:", error));
+      }
+    }
+  } catch (error) {
+    console.error("Error resuming bot moves:", error);
+  }
+}
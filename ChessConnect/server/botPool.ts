@@ -0,0 +1,119 @@
+import type { Worker } from "worker_threads";
+import os from "os";
+import { createModuleWorker } from "./workerThread";
+import type { BotMove, BotPersonality } from "./bot";
+
+export interface BotJob {
+  id: number;
+  fen: string;
+  personality: BotPersonality;
+  timeLimit: number; // milliseconds
+}
+
+export type BotJobResult =
+  | { id: number; move: BotMove }
+  | { id: number; error: string };
+
+// Leave a core for the web server itself
+const POOL_SIZE = Math.max(1, Math.min(os.cpus().length - 1, 4));
+const MAX_QUEUE_LENGTH = 32;
+// A worker that overruns its budget by this much is assumed stuck and replaced
+const WORKER_TIMEOUT_MARGIN_MS = 10000;
+
+export class BotQueueFullError extends Error {
+  constructor() {
+    super("Bot move queue is full");
+  }
+}
+
+interface PendingJob {
+  job: BotJob;
+  resolve: (move: BotMove) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current?: PendingJob;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+
+function finishJob(poolWorker: PoolWorker, error: Error | null, move?: BotMove) {
+  const pending = poolWorker.current;
+  if (!pending) return;
+
+  clearTimeout(poolWorker.timer);
+  poolWorker.current = undefined;
+  poolWorker.timer = undefined;
+
+  if (error) pending.reject(error);
+  else pending.resolve(move!);
+}
+
+function replaceWorker(poolWorker: PoolWorker, error: Error) {
+  finishJob(poolWorker, error);
+  poolWorker.worker.removeAllListeners();
+  poolWorker.worker.terminate().catch(() => {});
+
+  const index = workers.indexOf(poolWorker);
+  if (index !== -1) workers.splice(index, 1);
+  dispatch();
+}
+
+function startWorker(): PoolWorker {
+  const poolWorker: PoolWorker = { worker: createModuleWorker("botWorker") };
+
+  poolWorker.worker.on("message", (result: BotJobResult) => {
+    if (poolWorker.current?.job.id !== result.id) return;
+    if ("error" in result) finishJob(poolWorker, new Error(result.error));
+    else finishJob(poolWorker, null, result.move);
+    dispatch();
+  });
+  poolWorker.worker.on("error", (error) => {
+    console.error("Bot worker crashed:", error);
+    replaceWorker(poolWorker, error);
+  });
+  poolWorker.worker.on("exit", (code) => {
+    replaceWorker(poolWorker, new Error(`Bot worker exited with code ${code}`));
+  });
+
+  workers.push(poolWorker);
+  return poolWorker;
+}
+
+function runJob(poolWorker: PoolWorker, pending: PendingJob) {
+  poolWorker.current = pending;
+  poolWorker.timer = setTimeout(() => {
+    replaceWorker(poolWorker, new Error("Bot worker timed out"));
+  }, pending.job.timeLimit + WORKER_TIMEOUT_MARGIN_MS);
+  poolWorker.worker.postMessage(pending.job);
+}
+
+function dispatch() {
+  while (queue.length > 0) {
+    let idle = workers.find((w) => !w.current);
+    if (!idle && workers.length < POOL_SIZE) {
+      idle = startWorker();
+    }
+    if (!idle) return;
+
+    runJob(idle, queue.shift()!);
+  }
+}
+
+// Search `fen` on a worker thread within `timeLimit` milliseconds. Rejects
+// with BotQueueFullError when too many searches are already waiting.
+export function requestBotMove(fen: string, personality: BotPersonality, timeLimit: number): Promise<BotMove> {
+  if (queue.length >= MAX_QUEUE_LENGTH) {
+    return Promise.reject(new BotQueueFullError());
+  }
+
+  return new Promise((resolve, reject) => {
+    queue.push({ job: { id: nextJobId++, fen, personality, timeLimit }, resolve, reject });
+    dispatch();
+  });
+}
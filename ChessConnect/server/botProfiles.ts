@@ -0,0 +1,125 @@
+import type { InsertBotProfile } from "@shared/schema";
+import { storage } from "./storage";
+import type { BotPersonality } from "./bot";
+
+// The bots every installation starts with. Once created they live in the
+// database, where their personalities can be tuned or new bots added.
+const DEFAULT_BOTS: (InsertBotProfile & { color: string })[] = [
+  {
+    userId: "bot_ruby",
+    name: "Rookie Ruby",
+    description: "Just learned how the pieces move and loves to push pawns.",
+    targetElo: 800,
+    blunderRate: 0.2,
+    style: "balanced",
+    openingRepertoire: ["e4 e5 Nf3 Nc6", "d4 d5 Nf3 Nf6", "a3 e5", "e4 e5 Qh5"],
+    color: "#f59e0b",
+  },
+  {
+    userId: "bot_gus",
+    name: "Gambit Gus",
+    description: "Sacrifices first, asks questions later.",
+    targetElo: 1200,
+    blunderRate: 0.08,
+    style: "aggressive",
+    openingRepertoire: [
+      "e4 e5 f4 exf4 Nf3",
+      "e4 e5 Nf3 Nc6 Bc4 Bc5 b4",
+      "e4 c5 d4 cxd4 c3",
+      "d4 d5 c4 e5",
+    ],
+    color: "#ef4444",
+  },
+  {
+    userId: "bot_sam",
+    name: "Steady Sam",
+    description: "Keeps the king safe and waits for you to overreach.",
+    targetElo: 1500,
+    blunderRate: 0.04,
+    style: "defensive",
+    openingRepertoire: [
+      "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5",
+      "d4 Nf6 c4 e6 Nc3 Bb4",
+      "c4 e5 Nc3 Nf6",
+      "Nf3 d5 d4 Nf6 Bf4",
+    ],
+    color: "#10b981",
+  },
+  {
+    userId: "bot_pia",
+    name: "Professor Pia",
+    description: "Plays the position, not the opponent.",
+    targetElo: 1800,
+    blunderRate: 0.02,
+    style: "positional",
+    openingRepertoire: [
+      "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7",
+      "e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7",
+      "Nf3 d5 g3 Nf6 Bg2 e6",
+      "c4 Nf6 Nc3 e6 Nf3 d5",
+    ],
+    color: "#3b82f6",
+  },
+  {
+    userId: "bot_max",
+    name: "Master Max",
+    description: "Club champion. Expect no gifts.",
+    targetElo: 2200,
+    blunderRate: 0,
+    style: "balanced",
+    openingRepertoire: [
+      "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6",
+      "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O",
+      "e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4",
+    ],
+    color: "#8b5cf6",
+  },
+];
+
+// Games created before bots had profiles name a difficulty in the player id
+// (bot_easy_1700000000000); they keep playing at a matching strength.
+const LEGACY_DIFFICULTY_ELO: Record<string, number> = {
+  easy: 800,
+  medium: 1400,
+  hard: 2000,
+};
+
+// Profile pictures are stored inline like uploaded ones, so bots get a small
+// generated SVG: their initials on a coloured disc.
+function getBotAvatar(name: string, color: string): string {
+  const initials = name.split(" ").map((word) => word[0]).join("").slice(0, 2).toUpperCase();
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">` +
+    `<circle cx="32" cy="32" r="32" fill="${color}"/>` +
+    `<text x="32" y="41" font-family="sans-serif" font-size="24" font-weight="bold" fill="#fff" text-anchor="middle">${initials}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+export async function seedBotProfiles() {
+  try {
+    for (const { color, ...profile } of DEFAULT_BOTS) {
+      await storage.createBotProfileIfMissing(profile, getBotAvatar(profile.name, color));
+    }
+  } catch (error) {
+    console.error("Error creating bot profiles:", error);
+  }
+}
+
+export async function getBotPersonality(botId: string): Promise<BotPersonality | undefined> {
+  const profile = await storage.getBotProfile(botId);
+  if (profile) {
+    return {
+      targetElo: profile.targetElo,
+      blunderRate: profile.blunderRate ?? 0,
+      style: profile.style ?? "balanced",
+      openingRepertoire: profile.openingRepertoire ?? [],
+    };
+  }
+
+  const legacyElo = LEGACY_DIFFICULTY_ELO[botId.split("_")[1]];
+  if (legacyElo) {
+    return { targetElo: legacyElo, blunderRate: 0, style: "balanced", openingRepertoire: [] };
+  }
+
+  return undefined;
+}
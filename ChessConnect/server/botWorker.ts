@@ -0,0 +1,16 @@
+import { parentPort } from "worker_threads";
+import { getBotMove } from "./engine";
+import type { BotJob, BotJobResult } from "./botPool";
+
+// Entry point for the bot worker threads started by botPool.ts. Each worker
+// searches one position at a time, off the main event loop.
+parentPort?.on("message", async (job: BotJob) => {
+  let result: BotJobResult;
+  try {
+    const move = await getBotMove(job.fen, job.personality, job.timeLimit);
+    result = { id: job.id, move };
+  } catch (error) {
+    result = { id: job.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(result);
+});
@@ -0,0 +1,142 @@
+import { randomInt } from "crypto";
+import type { Challenge, ChallengeWithPlayers, CreateChallenge, Game } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcastGamePresence, notifyUser } from "./presence";
+import { scheduleFlagCheck } from "./clock";
+import { START_FEN } from "@shared/position";
+
+// A direct challenge is only worth answering while the challenger waits for
+// it; a join link may be passed around for a while
+const DIRECT_CHALLENGE_EXPIRY = 30 * 60 * 1000;
+const OPEN_CHALLENGE_EXPIRY = 24 * 60 * 60 * 1000;
+
+const EXPIRY_SWEEP_INTERVAL = 60 * 1000;
+
+// No 0/O or 1/I, so codes read out loud or copied by hand still work
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+// Both sides' lists of challenges need refreshing
+function notifyChallengesChanged(challenge: Challenge) {
+  notifyUser(challenge.challengerId, { type: 'challenges-changed' });
+  if (challenge.targetUserId) {
+    notifyUser(challenge.targetUserId, { type: 'challenges-changed' });
+  }
+}
+
+export async function withPlayers(challenge: Challenge): Promise<ChallengeWithPlayers | undefined> {
+  const users = await storage.getUsersByIds(
+    [challenge.challengerId, challenge.targetUserId].filter((id): id is string => !!id)
+  );
+  const challenger = users.find((user) => user.id === challenge.challengerId);
+  if (!challenger) return undefined;
+
+  return {
+    ...challenge,
+    // Until the next sweep records it
+    status: challenge.status === 'pending' && challenge.expiresAt <= new Date() ? 'expired' : challenge.status,
+    challenger,
+    target: users.find((user) => user.id === challenge.targetUserId) ?? null,
+  } as ChallengeWithPlayers;
+}
+
+// Challenges without a target get a join code, retried on the rare clash.
+// A set-up position has been checked by the caller; games from one are casual
+// (see updatePlayerStats), so the challenge says so.
+export async function createChallenge(challengerId: string, data: CreateChallenge): Promise<ChallengeWithPlayers> {
+  const expiresAt = new Date(Date.now() + (data.targetUserId ? DIRECT_CHALLENGE_EXPIRY : OPEN_CHALLENGE_EXPIRY));
+  const startFen = data.startFen && data.startFen !== START_FEN ? data.startFen : undefined;
+
+  let challenge: Challenge | undefined;
+  for (let attempt = 0; !challenge; attempt++) {
+    try {
+      challenge = await storage.createChallenge({
+        ...data,
+        startFen,
+        rated: startFen ? false : data.rated,
+        challengerId,
+        code: data.targetUserId ? undefined : generateJoinCode(),
+        expiresAt,
+      });
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt >= 4) throw error;
+    }
+  }
+
+  const result = (await withPlayers(challenge))!;
+  notifyUser(challengerId, { type: 'challenges-changed' });
+  if (result.targetUserId) {
+    notifyUser(result.targetUserId, { type: 'challenge-received', challenge: result });
+  }
+  return result;
+}
+
+// Pending challenges the user sent or received, newest first
+export async function getChallengeList(userId: string): Promise<ChallengeWithPlayers[]> {
+  const challenges = await storage.getPendingChallenges(userId);
+  const results = await Promise.all(challenges.map(withPlayers));
+  return results.filter((challenge): challenge is ChallengeWithPlayers => !!challenge);
+}
+
+// Starts the game. Returns undefined when the challenge was answered, cancelled
+// or expired in the meantime.
+export async function acceptChallenge(challenge: Challenge, userId: string): Promise<Game | undefined> {
+  const accepted = await storage.respondToChallenge(challenge._id.toString(), 'accepted');
+  if (!accepted) return undefined;
+
+  const challengerIsWhite = accepted.color === 'random' ? Math.random() < 0.5 : accepted.color === 'white';
+  const game = await storage.createGame({
+    whitePlayerId: challengerIsWhite ? accepted.challengerId : userId,
+    blackPlayerId: challengerIsWhite ? userId : accepted.challengerId,
+    timeControl: accepted.timeControl,
+    timeIncrement: accepted.timeIncrement,
+    timeDelay: accepted.timeDelay,
+    whiteTimeRemaining: accepted.timeControl,
+    blackTimeRemaining: accepted.timeControl,
+    rated: accepted.rated,
+    startFen: accepted.startFen,
+    lastMoveAt: new Date(),
+  });
+  scheduleFlagCheck(game);
+  const gameId = game._id.toString();
+  await storage.setChallengeGame(accepted._id.toString(), gameId);
+
+  broadcastGamePresence(game);
+  notifyUser(accepted.challengerId, { type: 'challenge-accepted', challengeId: accepted._id.toString(), gameId });
+  notifyChallengesChanged(accepted);
+  return game;
+}
+
+// Declining by the target or cancelling by the challenger
+export async function closeChallenge(challenge: Challenge, status: 'declined' | 'cancelled'): Promise<boolean> {
+  const closed = await storage.respondToChallenge(challenge._id.toString(), status);
+  if (!closed) return false;
+
+  notifyChallengesChanged(closed);
+  return true;
+}
+
+async function expireChallenges() {
+  const expired = await storage.expireChallenges();
+  expired.forEach(notifyChallengesChanged);
+}
+
+// Expired challenges are already left out of lists and can't be accepted; the
+// sweep records them as expired and takes them off open clients
+export function startChallengeExpiry() {
+  const sweep = () => expireChallenges().catch((error) => console.error("Error expiring challenges:", error));
+  sweep();
+  setInterval(sweep, EXPIRY_SWEEP_INTERVAL);
+}
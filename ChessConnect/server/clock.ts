@@ -0,0 +1,170 @@
+import { Chess } from "chess.js";
+import type { Game } from "@shared/schema";
+import { storage } from "./storage";
+import { endGame, type GameResult } from "./gameResults";
+
+type Side = 'white' | 'black';
+
+export interface ClockState {
+  whiteTimeRemaining: number;
+  blackTimeRemaining: number;
+}
+
+// Small grace period so a timer never fires a hair before the flag falls
+const FLAG_CHECK_GRACE_MS = 100;
+
+// The longest setTimeout can wait; a clock with more time left is checked
+// again when this runs out
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// gameId -> pending flag check for the side to move
+const flagTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function getRemaining(game: Game, side: Side): number {
+  const stored = side === 'white' ? game.whiteTimeRemaining : game.blackTimeRemaining;
+  return stored ?? game.timeControl ?? 600;
+}
+
+// Remaining seconds for both players at `now`. The side to move is charged for
+// the time since lastMoveAt, which is set when a game is created, so the first
+// player's clock runs from the start; without it no clock is running.
+export function getLiveClock(game: Game, now: Date = new Date()): ClockState {
+  const clock = {
+    whiteTimeRemaining: getRemaining(game, 'white'),
+    blackTimeRemaining: getRemaining(game, 'black'),
+  };
+
+  if (game.status !== 'active' || !game.lastMoveAt) {
+    return clock;
+  }
+
+  const elapsed = (now.getTime() - new Date(game.lastMoveAt).getTime()) / 1000;
+  if (game.currentTurn === 'white') {
+    clock.whiteTimeRemaining = Math.max(0, clock.whiteTimeRemaining - elapsed);
+  } else {
+    clock.blackTimeRemaining = Math.max(0, clock.blackTimeRemaining - elapsed);
+  }
+
+  return clock;
+}
+
+// Clocks once the side to move completes a move at `now`: the time used is
+// charged, then the Fischer increment is added or, with a Bronstein delay, up
+// to `timeDelay` seconds of the time used is given back.
+export function getClockAfterMove(game: Game, now: Date = new Date()): ClockState {
+  const clock = getLiveClock(game, now);
+  const side = game.currentTurn as Side;
+  const key = side === 'white' ? 'whiteTimeRemaining' : 'blackTimeRemaining';
+
+  const used = getRemaining(game, side) - clock[key];
+  const bonus = (game.timeIncrement || 0) + Math.min(used, game.timeDelay || 0);
+  clock[key] += bonus;
+
+  return clock;
+}
+
+export function withLiveClock<T extends Game>(game: T, now: Date = new Date()): T {
+  return { ...game, ...getLiveClock(game, now) };
+}
+
+export function hasFlagFallen(game: Game, now: Date = new Date()): boolean {
+  if (game.status !== 'active' || !game.lastMoveAt) return false;
+
+  const clock = getLiveClock(game, now);
+  const remaining = game.currentTurn === 'white' ? clock.whiteTimeRemaining : clock.blackTimeRemaining;
+  return remaining <= 0;
+}
+
+// A flag fall only wins if the opponent could still deliver mate; a lone king
+// or king and single minor piece cannot, so that is scored as a draw.
+function hasMatingMaterial(fen: string, side: Side): boolean {
+  const color = side === 'white' ? 'w' : 'b';
+  let minorPieces = 0;
+
+  for (const row of new Chess(fen).board()) {
+    for (const piece of row) {
+      if (!piece || piece.color !== color) continue;
+      if (piece.type === 'p' || piece.type === 'r' || piece.type === 'q') return true;
+      if (piece.type === 'n' || piece.type === 'b') minorPieces++;
+    }
+  }
+
+  return minorPieces >= 2;
+}
+
+export function getTimeoutResult(game: Game): { result: GameResult; termination: string } {
+  const flaggedSide = game.currentTurn as Side;
+  const winner: Side = flaggedSide === 'white' ? 'black' : 'white';
+
+  if (!hasMatingMaterial(game.fen, winner)) {
+    return { result: 'draw', termination: 'timeout_vs_insufficient_material' };
+  }
+
+  return { result: winner === 'white' ? 'white_wins' : 'black_wins', termination: 'timeout' };
+}
+
+// End the game on time if the side to move has run out. Returns the completed
+// game, or undefined if the game is still running (or already over).
+export async function checkFlagFall(game: Game, now: Date = new Date()): Promise<Game | undefined> {
+  if (!hasFlagFallen(game, now)) return undefined;
+
+  const { result, termination } = getTimeoutResult(game);
+  const clock = getLiveClock(game, now);
+
+  return endGame(game, result, termination, {
+    whiteTimeRemaining: clock.whiteTimeRemaining,
+    blackTimeRemaining: clock.blackTimeRemaining,
+  });
+}
+
+// Arm a timer for the moment the side to move would flag, so the game ends on
+// time even if that player never sends another request.
+export function scheduleFlagCheck(game: Game) {
+  const gameId = game._id.toString();
+  cancelFlagCheck(gameId);
+
+  if (game.status !== 'active' || !game.lastMoveAt) return;
+
+  const clock = getLiveClock(game);
+  const remaining = game.currentTurn === 'white' ? clock.whiteTimeRemaining : clock.blackTimeRemaining;
+
+  const timer = setTimeout(async () => {
+    flagTimers.delete(gameId);
+    try {
+      const current = await storage.getGame(gameId);
+      if (!current || current.status !== 'active') return;
+
+      const completedGame = await checkFlagFall(current);
+      if (!completedGame) {
+        // A move landed in the meantime; watch the new side to move instead
+        scheduleFlagCheck(current);
+      }
+    } catch (error) {
+      console.error("Error checking flag fall:", error);
+    }
+  }, Math.min(remaining * 1000 + FLAG_CHECK_GRACE_MS, MAX_TIMER_DELAY_MS));
+
+  flagTimers.set(gameId, timer);
+}
+
+export function cancelFlagCheck(gameId: string) {
+  const timer = flagTimers.get(gameId);
+  if (timer) {
+    clearTimeout(timer);
+    flagTimers.delete(gameId);
+  }
+}
+
+// Timers live in memory, so re-arm them for every running game after a restart
+export async function restoreFlagChecks() {
+  try {
+    const games = await storage.getActiveGames();
+    for (const game of games) {
+      if (!(await checkFlagFall(game))) {
+        scheduleFlagCheck(game);
+      }
+    }
+  } catch (error) {
+    console.error("Error restoring game clocks:", error);
+  }
+}
@@ -0,0 +1,213 @@
+import { spawn } from "child_process";
+import { Chess } from "chess.js";
+import { ChessBot, type BotMove, type BotPersonality } from "./bot";
+
+// Anything that can pick a move for a bot. Engines are free to be slow or to
+// fail; callers go through getBotMove, which falls back to the built-in bot.
+export interface ChessEngine {
+  readonly name: string;
+  // `timeLimit` (milliseconds) caps the search below the bot's default
+  getBestMove(fen: string, personality: BotPersonality, timeLimit?: number): Promise<BotMove>;
+}
+
+interface SearchLimits {
+  depth: number;
+  movetime: number; // milliseconds
+}
+
+// External engines are far stronger than our bot, so weaker bots are held
+// back by depth and time as well as by the engine's own strength limit.
+export function getEngineLimits(targetElo: number): SearchLimits {
+  if (targetElo < 1000) return { depth: 1, movetime: 100 };
+  if (targetElo < 1400) return { depth: 4, movetime: 300 };
+  if (targetElo < 1800) return { depth: 8, movetime: 500 };
+  if (targetElo < 2100) return { depth: 12, movetime: 1000 };
+  return { depth: 18, movetime: 2000 };
+}
+
+// The UCI_Elo range Stockfish accepts; engines without the option ignore it
+const UCI_MIN_ELO = 1320;
+const UCI_MAX_ELO = 3190;
+
+// Extra time allowed on top of movetime for the engine to start and answer
+const UCI_TIMEOUT_MARGIN_MS = 5000;
+
+export class BuiltinEngine implements ChessEngine {
+  readonly name = "builtin";
+
+  async getBestMove(fen: string, personality: BotPersonality, timeLimit?: number): Promise<BotMove> {
+    return new ChessBot(personality, timeLimit).getBestMove(fen);
+  }
+}
+
+// Talks the Universal Chess Interface to a locally installed engine binary
+// (e.g. Stockfish). A fresh process is started for every search so a crashed
+// or hung engine never affects another game.
+export class UciEngine implements ChessEngine {
+  readonly name: string;
+
+  constructor(private enginePath: string) {
+    this.name = `uci:${enginePath}`;
+  }
+
+  getBestMove(fen: string, personality: BotPersonality, timeLimit?: number): Promise<BotMove> {
+    const limits = getEngineLimits(personality.targetElo);
+    const depth = limits.depth;
+    const movetime = Math.min(limits.movetime, timeLimit ?? Infinity);
+    const elo = Math.min(UCI_MAX_ELO, Math.max(UCI_MIN_ELO, personality.targetElo));
+
+    return new Promise((resolve, reject) => {
+      const engine = spawn(this.enginePath, [], { stdio: ["pipe", "pipe", "ignore"] });
+      let buffer = "";
+      let score: number | undefined;
+      let settled = false;
+
+      const finish = (error: Error | null, result?: BotMove) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        engine.stdin.end();
+        engine.kill();
+        if (error) reject(error);
+        else resolve(result!);
+      };
+
+      const send = (command: string) => engine.stdin.write(`${command}\n`);
+
+      const timer = setTimeout(
+        () => finish(new Error(`UCI engine did not answer within ${movetime + UCI_TIMEOUT_MARGIN_MS}ms`)),
+        movetime + UCI_TIMEOUT_MARGIN_MS
+      );
+
+      engine.on("error", (error) => finish(error));
+      engine.on("exit", (code) => finish(new Error(`UCI engine exited with code ${code}`)));
+      engine.stdin.on("error", (error) => finish(error));
+
+      engine.stdout.on("data", (chunk: Buffer) => {
+        buffer += chunk.toString();
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines.map((l) => l.trim())) {
+          if (line === "uciok") {
+            send("setoption name UCI_LimitStrength value true");
+            send(`setoption name UCI_Elo value ${elo}`);
+            send("isready");
+          } else if (line === "readyok") {
+            send(`position fen ${fen}`);
+            send(`go depth ${depth} movetime ${movetime}`);
+          } else if (line.startsWith("info ")) {
+            score = parseScore(line) ?? score;
+          } else if (line.startsWith("bestmove ")) {
+            try {
+              finish(null, toBotMove(fen, line.split(/\s+/)[1], score));
+            } catch (error) {
+              finish(error as Error);
+            }
+          }
+        }
+      });
+
+      send("uci");
+    });
+  }
+}
+
+// Score in pawns from the side to move's point of view; mates count as 100
+function parseScore(line: string): number | undefined {
+  const match = line.match(/\bscore (cp|mate) (-?\d+)/);
+  if (!match) return undefined;
+  const value = parseInt(match[2], 10);
+  if (match[1] === "mate") return value > 0 ? 100 : -100;
+  return value / 100;
+}
+
+// UCI moves are in long algebraic notation (e2e4, e7e8q); the rest of the
+// server works in SAN, with evaluations from white's point of view.
+function toBotMove(fen: string, uciMove: string | undefined, score?: number): BotMove {
+  const chess = new Chess(fen);
+  if (!uciMove || uciMove === "(none)") {
+    throw new Error("UCI engine returned no move");
+  }
+
+  const move = chess.move({
+    from: uciMove.slice(0, 2),
+    to: uciMove.slice(2, 4),
+    promotion: uciMove[4],
+  });
+
+  const evaluation = score === undefined ? undefined : move.color === "w" ? score : -score;
+  return { move: move.san, evaluation };
+}
+
+const builtinEngine = new BuiltinEngine();
+
+// Set UCI_ENGINE_PATH to the engine binary to use it for bot games
+export function getConfiguredEngine(): ChessEngine {
+  const enginePath = process.env.UCI_ENGINE_PATH;
+  return enginePath ? new UciEngine(enginePath) : builtinEngine;
+}
+
+// Board, side to move, castling and en passant: enough to recognise a
+// position whatever the move counters say
+export function getPositionKey(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+// A move from the bot's opening repertoire if the game is still in one of its
+// lines. Lines are matched by position, so transpositions count too.
+function getBookMove(fen: string, repertoire: string[]): string | undefined {
+  const position = getPositionKey(fen);
+  const candidates: string[] = [];
+
+  for (const line of repertoire) {
+    const chess = new Chess();
+    for (const san of line.trim().split(/\s+/)) {
+      const before = getPositionKey(chess.fen());
+      try {
+        chess.move(san);
+      } catch {
+        break; // a typo in the repertoire ends that line
+      }
+      if (before === position) {
+        candidates.push(san);
+        break;
+      }
+    }
+  }
+
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+// Every so often the bot plays a random move instead of the engine's choice
+function maybeBlunder(fen: string, botMove: BotMove, blunderRate: number): BotMove {
+  if (Math.random() >= blunderRate) return botMove;
+
+  const alternatives = new Chess(fen).moves().filter((move) => move !== botMove.move);
+  if (alternatives.length === 0) return botMove;
+  return { move: alternatives[Math.floor(Math.random() * alternatives.length)] };
+}
+
+async function searchBestMove(fen: string, personality: BotPersonality, timeLimit?: number): Promise<BotMove> {
+  const engine = getConfiguredEngine();
+  if (engine === builtinEngine) {
+    return builtinEngine.getBestMove(fen, personality, timeLimit);
+  }
+
+  try {
+    return await engine.getBestMove(fen, personality, timeLimit);
+  } catch (error) {
+    console.error(`Engine ${engine.name} failed, falling back to built-in bot:`, error);
+    return builtinEngine.getBestMove(fen, personality, timeLimit);
+  }
+}
+
+export async function getBotMove(fen: string, personality: BotPersonality, timeLimit?: number): Promise<BotMove> {
+  const bookMove = getBookMove(fen, personality.openingRepertoire);
+  if (bookMove) {
+    return { move: bookMove };
+  }
+
+  const botMove = await searchBestMove(fen, personality, timeLimit);
+  return maybeBlunder(fen, botMove, personality.blunderRate);
+}
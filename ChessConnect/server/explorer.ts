@@ -0,0 +1,107 @@
+import type { ExplorerMoveStats, Game, InsertExplorerGame } from "@shared/schema";
+import { storage } from "./storage";
+import { getPositionKey } from "./engine";
+import { isBotPlayer, type GameResult } from "./gameResults";
+import { getStartFen } from "@shared/position";
+
+// The explorer is about openings; past this many half-moves positions hardly
+// ever repeat between games, so they aren't worth counting
+export const EXPLORER_MAX_PLY = 40;
+
+// Games indexed per batch when catching up at startup
+const BACKFILL_BATCH_SIZE = 50;
+
+export interface ExplorerPosition {
+  games: number;
+  whiteWins: number;
+  draws: number;
+  blackWins: number;
+  moves: ExplorerMoveStats[];
+}
+
+// Rated games store both players' ratings going in; otherwise fall back to
+// the players' current overall rating, or a bot's target Elo
+async function getPlayerRating(playerId: string | undefined, gameRating: number | undefined): Promise<number | undefined> {
+  if (gameRating !== undefined) return gameRating;
+  if (!playerId) return undefined;
+  if (isBotPlayer(playerId)) {
+    return (await storage.getBotProfile(playerId))?.targetElo;
+  }
+  return (await storage.getUser(playerId))?.rating;
+}
+
+async function getAverageRating(game: Game): Promise<number | undefined> {
+  const ratings = [
+    await getPlayerRating(game.whitePlayerId, game.whiteRating),
+    await getPlayerRating(game.blackPlayerId, game.blackRating),
+  ].filter((rating): rating is number => rating !== undefined);
+  if (ratings.length === 0) return undefined;
+  return Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length);
+}
+
+// Add a finished game's opening moves to the explorer totals, each keyed by
+// the position it was played from, overall and for both players. Imported
+// games stay out: the explorer shows what is played on this site.
+export async function indexGameForExplorer(gameId: string): Promise<void> {
+  const game = await storage.getGame(gameId);
+  if (!game || game.imported || game.status !== 'completed' || !game.result || game.explorerIndexed) return;
+
+  const moves = await storage.getGameMoves(gameId);
+
+  // A position and move the game came back to only count once for it
+  const seen = new Set<string>();
+  const entry: InsertExplorerGame = {
+    moves: [],
+    playerIds: [game.whitePlayerId, game.blackPlayerId].filter((id): id is string => !!id),
+    result: game.result as GameResult,
+    averageRating: await getAverageRating(game),
+  };
+
+  let fen = getStartFen(game);
+  for (const move of moves.slice(0, EXPLORER_MAX_PLY)) {
+    const positionKey = getPositionKey(fen);
+    const key = `${positionKey}|${move.move}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      entry.moves.push({ positionKey, move: move.move });
+    }
+    fen = move.fen;
+  }
+
+  await storage.addGameToExplorer(gameId, entry);
+}
+
+// Games that finished before the explorer existed, or while indexing failed
+export async function backfillExplorer() {
+  try {
+    for (;;) {
+      const games = await storage.getGamesMissingFromExplorer(BACKFILL_BATCH_SIZE);
+      if (games.length === 0) return;
+
+      for (const game of games) {
+        const gameId = game._id.toString();
+        if (game.result) {
+          await indexGameForExplorer(gameId);
+        } else {
+          // Nothing to learn from a game without a result; just stop looking at it
+          await storage.markExplorerIndexed(gameId);
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error backfilling opening explorer:", error);
+  }
+}
+
+// The moves played from a position, with totals across all of them
+export async function getExplorerPosition(fen: string, playerId?: string): Promise<ExplorerPosition> {
+  const moves = await storage.getExplorerMoveStats(getPositionKey(fen), playerId);
+  const position: ExplorerPosition = { games: 0, whiteWins: 0, draws: 0, blackWins: 0, moves };
+  for (const move of moves) {
+    position.games += move.games;
+    position.whiteWins += move.whiteWins;
+    position.draws += move.draws;
+    position.blackWins += move.blackWins;
+  }
+  return position;
+}
@@ -0,0 +1,128 @@
+import type { Response } from "express";
+import type { Game, User } from "@shared/schema";
+import { storage } from "./storage";
+import { buildPgn } from "./pgn";
+
+export type ExportFormat = "pgn" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["pgn", "json"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pgn: "application/x-chess-pgn",
+  json: "application/json",
+};
+
+// Players come up again and again in one archive, so each is looked up once
+type UserCache = Map<string, User | undefined>;
+
+async function getCachedUser(cache: UserCache, id?: string): Promise<User | undefined> {
+  if (!id) return undefined;
+  if (!cache.has(id)) cache.set(id, await storage.getUser(id));
+  return cache.get(id);
+}
+
+function getPlayerName(user?: User, fallback?: string): string | undefined {
+  if (!user) return fallback;
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+// Resolves once the response can take more data, or has been closed by the client
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+async function write(res: Response, chunk: string) {
+  if (!res.write(chunk)) await waitForDrain(res);
+}
+
+// The stored PGN is kept up to date move by move; games from before PGNs were
+// kept are built from their moves
+async function getGamePgn(game: Game, users: UserCache): Promise<string> {
+  if (game.pgn) return game.pgn;
+  const moves = await storage.getGameMoves(game._id.toString());
+  return buildPgn(game, moves, await getCachedUser(users, game.whitePlayerId), await getCachedUser(users, game.blackPlayerId));
+}
+
+async function getGameRecord(game: Game, users: UserCache) {
+  const gameId = game._id.toString();
+  const white = await getCachedUser(users, game.whitePlayerId);
+  const black = await getCachedUser(users, game.blackPlayerId);
+
+  const moves = [];
+  for await (const move of storage.iterateGameMoves(gameId)) {
+    moves.push({
+      ply: move.moveNumber,
+      san: move.move,
+      fen: move.fen,
+      clock: move.timeRemaining ?? undefined, // seconds left after the move
+      playedAt: move.createdAt,
+    });
+  }
+
+  const chat = (await storage.getChatMessages(gameId)).map((message) => ({
+    playerId: message.playerId,
+    player: getPlayerName(message.player),
+    message: message.message,
+    sentAt: message.createdAt,
+  }));
+
+  return {
+    id: gameId,
+    white: { id: game.whitePlayerId, name: getPlayerName(white, game.whitePlayerName), rating: game.whiteRating, ratingChange: game.whiteRatingChange },
+    black: { id: game.blackPlayerId, name: getPlayerName(black, game.blackPlayerName), rating: game.blackRating, ratingChange: game.blackRatingChange },
+    status: game.status,
+    result: game.result,
+    termination: game.termination,
+    timeControl: game.timeControl,
+    timeIncrement: game.timeIncrement,
+    timeDelay: game.timeDelay,
+    ratingCategory: game.ratingCategory,
+    rated: game.whiteRatingChange !== undefined && game.whiteRatingChange !== null,
+    imported: !!game.imported,
+    event: game.event,
+    startFen: game.startFen,
+    eco: game.eco,
+    openingName: game.openingName,
+    createdAt: game.createdAt,
+    pgn: await getGamePgn(game, users),
+    moves,
+    chat,
+  };
+}
+
+// Stream every game of a player's archive to `res`, as one multi-game PGN or
+// as a JSON array with moves, clock times and chat. Games are read one at a
+// time through a cursor and written as they come, waiting whenever the
+// client falls behind, so archive size doesn't matter.
+export async function streamGameArchive(userId: string, format: ExportFormat, res: Response) {
+  const users: UserCache = new Map();
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.setHeader("Content-Type", `${CONTENT_TYPES[format]}; charset=utf-8`);
+  res.setHeader("Content-Disposition", `attachment; filename="chessconnect-games-${date}.${format}"`);
+
+  let first = true;
+  if (format === "json") await write(res, "[\n");
+
+  for await (const game of storage.iterateUserGames(userId)) {
+    if (res.destroyed) return; // the download was cancelled
+
+    if (format === "pgn") {
+      await write(res, (first ? "" : "\n\n") + await getGamePgn(game, users));
+    } else {
+      await write(res, (first ? "" : ",\n") + JSON.stringify(await getGameRecord(game, users)));
+    }
+    first = false;
+  }
+
+  await write(res, format === "json" ? "\n]\n" : "\n");
+  res.end();
+}
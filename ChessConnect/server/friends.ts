@@ -0,0 +1,60 @@
+import type { Friend, FriendRequest, Friendship, PresenceStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { getPresences } from "./presence";
+
+// Friends who can be challenged come first
+const STATUS_ORDER: PresenceStatus[] = ['online', 'playing', 'idle', 'offline'];
+
+export function getOtherUserId(friendship: Friendship, userId: string): string {
+  return friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId;
+}
+
+function getDisplayName(user: { firstName?: string; lastName?: string }): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ');
+}
+
+export async function getFriendList(userId: string): Promise<Friend[]> {
+  const friendships = await storage.getFriendships(userId, 'accepted');
+  const friendIds = friendships.map((friendship) => getOtherUserId(friendship, userId));
+  const users = await storage.getUsersByIds(friendIds);
+  const presences = await getPresences(friendIds);
+
+  const friends: Friend[] = [];
+  for (const friendship of friendships) {
+    const friendId = getOtherUserId(friendship, userId);
+    const user = users.find((user) => user.id === friendId);
+    if (!user) continue;
+
+    friends.push({
+      friendshipId: friendship._id.toString(),
+      user,
+      ...presences.get(friendId)!,
+      since: friendship.acceptedAt ?? friendship.createdAt,
+    });
+  }
+
+  return friends.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+    || getDisplayName(a.user).localeCompare(getDisplayName(b.user))
+  );
+}
+
+// Pending requests either way, newest first
+export async function getFriendRequests(userId: string): Promise<FriendRequest[]> {
+  const friendships = await storage.getFriendships(userId, 'pending');
+  const users = await storage.getUsersByIds(friendships.map((friendship) => getOtherUserId(friendship, userId)));
+
+  const requests: FriendRequest[] = [];
+  for (const friendship of friendships) {
+    const user = users.find((user) => user.id === getOtherUserId(friendship, userId));
+    if (!user) continue;
+
+    requests.push({
+      _id: friendship._id.toString(),
+      user,
+      direction: friendship.addresseeId === userId ? 'incoming' : 'outgoing',
+      createdAt: friendship.createdAt,
+    });
+  }
+  return requests;
+}
@@ -0,0 +1,135 @@
+import type { Chess } from "chess.js";
+import type { Game, InsertGame, User } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcastGameEvent } from "./gameSocket";
+import { refreshGamePgn } from "./pgn";
+import { indexGameForExplorer } from "./explorer";
+import { broadcastGamePresence } from "./presence";
+import { getRatingCategory, type RatingCategory } from "@shared/timeControl";
+import { calculateRating, DEFAULT_RATING, type Rating, type RatingUpdate } from "./rating";
+
+export type GameResult = 'white_wins' | 'black_wins' | 'draw';
+
+export function isBotPlayer(playerId?: string): boolean {
+  return !!playerId && playerId.startsWith('bot_');
+}
+
+// Why a game that chess.js reports as over has ended
+export function getGameOverTermination(chess: Chess): string | undefined {
+  if (chess.isCheckmate()) return 'checkmate';
+  if (chess.isStalemate()) return 'stalemate';
+  if (chess.isInsufficientMaterial()) return 'insufficient_material';
+  if (chess.isThreefoldRepetition()) return 'threefold_repetition';
+  if (chess.isDraw()) return 'fifty_move_rule';
+  return undefined;
+}
+
+function getRating(user: User, category?: RatingCategory): Rating {
+  const source = category ? user.ratings?.[category] : user;
+  return {
+    rating: source?.rating ?? DEFAULT_RATING.rating,
+    ratingDeviation: source?.ratingDeviation ?? DEFAULT_RATING.ratingDeviation,
+    ratingVolatility: source?.ratingVolatility ?? DEFAULT_RATING.ratingVolatility,
+  };
+}
+
+function getRatingUpdate(player: User, opponent: User, category: RatingCategory, score: number): RatingUpdate {
+  return {
+    overall: calculateRating(getRating(player), getRating(opponent), score),
+    category,
+    pool: calculateRating(getRating(player, category), getRating(opponent, category), score),
+  };
+}
+
+async function recordRatingHistory(game: Game, player: User, opponent: User, update: RatingUpdate) {
+  await storage.addRatingHistory({
+    userId: player.id,
+    gameId: game._id.toString(),
+    opponentId: opponent.id,
+    category: update.category,
+    rating: update.pool.rating,
+    ratingChange: update.pool.rating - getRating(player, update.category).rating,
+    overallRating: update.overall.rating,
+    overallRatingChange: update.overall.rating - getRating(player).rating,
+  });
+}
+
+// Update both players' game counters and, when two rated players met, their
+// overall and time-control Glicko-2 ratings. Returns the pool ratings going in
+// and the change for each side so they can be stored on the game; bot games,
+// casual games and games set up from a position only touch the counters.
+export async function updatePlayerStats(game: Game, result: GameResult): Promise<Partial<InsertGame>> {
+  const whiteResult = result === 'draw' ? 'draw' : result === 'white_wins' ? 'win' : 'loss';
+  const blackResult = result === 'draw' ? 'draw' : result === 'black_wins' ? 'win' : 'loss';
+
+  const white = game.whitePlayerId && !isBotPlayer(game.whitePlayerId)
+    ? await storage.getUser(game.whitePlayerId)
+    : undefined;
+  const black = game.blackPlayerId && !isBotPlayer(game.blackPlayerId)
+    ? await storage.getUser(game.blackPlayerId)
+    : undefined;
+
+  if (!white || !black || game.startFen || game.rated === false) {
+    if (white) await storage.updateUserStats(white.id, whiteResult);
+    if (black) await storage.updateUserStats(black.id, blackResult);
+    return {};
+  }
+
+  const category = game.ratingCategory
+    ?? getRatingCategory(game.timeControl, game.timeIncrement, game.timeDelay);
+  const whiteScore = result === 'white_wins' ? 1 : result === 'draw' ? 0.5 : 0;
+  const whiteBefore = getRating(white, category);
+  const blackBefore = getRating(black, category);
+  const whiteUpdate = getRatingUpdate(white, black, category, whiteScore);
+  const blackUpdate = getRatingUpdate(black, white, category, 1 - whiteScore);
+
+  await storage.updateUserStats(white.id, whiteResult, whiteUpdate);
+  await storage.updateUserStats(black.id, blackResult, blackUpdate);
+
+  await recordRatingHistory(game, white, black, whiteUpdate);
+  await recordRatingHistory(game, black, white, blackUpdate);
+
+  return {
+    whiteRating: whiteBefore.rating,
+    blackRating: blackBefore.rating,
+    whiteRatingChange: whiteUpdate.pool.rating - whiteBefore.rating,
+    blackRatingChange: blackUpdate.pool.rating - blackBefore.rating,
+  };
+}
+
+// Finish an active game: store the result, update both players' stats and tell
+// anyone watching. Returns undefined if the game had already ended.
+export async function endGame(
+  game: Game,
+  result: GameResult,
+  termination: string,
+  updates: Partial<InsertGame> = {}
+): Promise<Game | undefined> {
+  const gameId = game._id.toString();
+
+  const completedGame = await storage.completeGame(gameId, {
+    ...updates,
+    result,
+    termination,
+  });
+
+  if (!completedGame) return undefined;
+
+  let finalGame = completedGame;
+  const ratingUpdates = await updatePlayerStats(game, result);
+  if (Object.keys(ratingUpdates).length > 0) {
+    finalGame = await storage.updateGame(gameId, ratingUpdates);
+  }
+
+  finalGame = await refreshGamePgn(gameId) ?? finalGame;
+
+  await storage.removeDrawOffers(gameId);
+
+  broadcastGameEvent({ type: 'game-over', gameId, game: finalGame });
+  broadcastGamePresence(finalGame);
+
+  // Not needed for the result, so it doesn't hold up the response
+  indexGameForExplorer(gameId).catch((error) => console.error("Error indexing game for explorer:", error));
+
+  return finalGame;
+}
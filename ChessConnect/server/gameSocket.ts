@@ -0,0 +1,226 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Game, GameEvent, GameClientMessage } from "@shared/schema";
+import { storage } from "./storage";
+import { getSessionUserId } from "./replitAuth";
+
+export const GAME_SOCKET_PATH = "/ws/game";
+
+interface GameSocket extends WebSocket {
+  userId: string;
+  isAlive: boolean;
+  gameIds: Set<string>;
+}
+
+// Who an event is for; spectators and players each have their own chat
+export type GameEventAudience = 'everyone' | 'players' | 'spectators';
+
+// gameId -> sockets subscribed to that game
+const subscriptions = new Map<string, Set<GameSocket>>();
+
+// gameId -> its players, as of the last time the game was loaded or broadcast.
+// Whether a socket is a player or a spectator is looked up here on every
+// event, so it follows the game rather than what it was at subscribe time.
+const gamePlayers = new Map<string, string[]>();
+
+// Players can always open their own game; anyone else can watch it unless it
+// is private and still being played
+export function canWatchGame(game: Game, userId: string): boolean {
+  const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+  return isPlayer || !game.private || game.status !== 'active';
+}
+
+function isSpectating(socket: GameSocket, gameId: string): boolean {
+  return !gamePlayers.get(gameId)?.includes(socket.userId);
+}
+
+// Returns true if the players changed
+function setGamePlayers(game: Game): boolean {
+  const gameId = game._id.toString();
+  const players = [game.whitePlayerId, game.blackPlayerId].filter((id): id is string => !!id);
+  const previous = gamePlayers.get(gameId);
+  gamePlayers.set(gameId, players);
+  return !!previous && previous.join() !== players.join();
+}
+
+// Spectators are counted once however many tabs they watch from
+function getSpectatorCount(gameId: string): number {
+  const spectatorIds = new Set<string>();
+  subscriptions.get(gameId)?.forEach((socket) => {
+    if (isSpectating(socket, gameId)) spectatorIds.add(socket.userId);
+  });
+  return spectatorIds.size;
+}
+
+function broadcastSpectatorCount(gameId: string) {
+  broadcastGameEvent({ type: 'spectators', gameId, count: getSpectatorCount(gameId) });
+}
+
+function subscribe(socket: GameSocket, game: Game) {
+  const gameId = game._id.toString();
+  let sockets = subscriptions.get(gameId);
+  if (!sockets) {
+    sockets = new Set();
+    subscriptions.set(gameId, sockets);
+  }
+  sockets.add(socket);
+  socket.gameIds.add(gameId);
+  if (setGamePlayers(game)) {
+    broadcastSpectatorCount(gameId);
+  }
+}
+
+function unsubscribe(socket: GameSocket, gameId: string) {
+  const wasSpectating = isSpectating(socket, gameId);
+  const sockets = subscriptions.get(gameId);
+  if (sockets) {
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      subscriptions.delete(gameId);
+      gamePlayers.delete(gameId);
+    }
+  }
+  socket.gameIds.delete(gameId);
+  if (wasSpectating && subscriptions.has(gameId)) {
+    broadcastSpectatorCount(gameId);
+  }
+}
+
+// A game made private sends its spectators away
+export function removeSpectators(gameId: string) {
+  const sockets = subscriptions.get(gameId);
+  if (!sockets) return;
+
+  Array.from(sockets)
+    .filter((socket) => isSpectating(socket, gameId))
+    .forEach((socket) => unsubscribe(socket, gameId));
+}
+
+async function handleClientMessage(socket: GameSocket, data: GameClientMessage) {
+  if (!data.gameId || typeof data.gameId !== 'string') return;
+
+  if (data.type === 'subscribe') {
+    const game = await storage.getGame(data.gameId);
+    if (!game) {
+      socket.send(JSON.stringify({ type: 'error', message: "Game not found" }));
+      return;
+    }
+
+    if (!canWatchGame(game, socket.userId)) {
+      socket.send(JSON.stringify({ type: 'error', message: "This game is private" }));
+      return;
+    }
+
+    subscribe(socket, game);
+    socket.send(JSON.stringify({ type: 'subscribed', gameId: data.gameId }));
+
+    if (!isSpectating(socket, data.gameId)) {
+      socket.send(JSON.stringify({ type: 'spectators', gameId: data.gameId, count: getSpectatorCount(data.gameId) }));
+    } else {
+      broadcastSpectatorCount(data.gameId);
+    }
+  } else if (data.type === 'unsubscribe') {
+    unsubscribe(socket, data.gameId);
+  }
+}
+
+// Push an event to everyone watching a game, or only to its players or its
+// spectators. The REST routes call this after every state change, so clients
+// that are not connected can still poll. The game, carried by the event or
+// passed in as just loaded, brings the players up to date before the audience
+// is worked out.
+export function broadcastGameEvent(event: GameEvent, audience: GameEventAudience = 'everyone', game?: Game) {
+  const sockets = subscriptions.get(event.gameId);
+  if (!sockets) return;
+
+  const currentGame = 'game' in event ? event.game : game;
+  const playersChanged = !!currentGame && setGamePlayers(currentGame);
+
+  const payload = JSON.stringify(event);
+  sockets.forEach((socket) => {
+    const isSpectator = isSpectating(socket, event.gameId);
+    if (audience === 'players' && isSpectator) return;
+    if (audience === 'spectators' && !isSpectator) return;
+
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+
+  if (playersChanged) {
+    broadcastSpectatorCount(event.gameId);
+  }
+}
+
+export function setupGameSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Only claim our own path so Vite's HMR socket keeps working in development
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '', 'http://localhost');
+    if (pathname !== GAME_SOCKET_PATH) return;
+
+    let userId: string | undefined;
+    try {
+      userId = await getSessionUserId(req);
+    } catch (error) {
+      console.error("Error authenticating game socket:", error);
+      socket.destroy();
+      return;
+    }
+    if (!userId) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const gameSocket = ws as GameSocket;
+      gameSocket.userId = userId;
+      gameSocket.isAlive = true;
+      gameSocket.gameIds = new Set();
+      wss.emit('connection', gameSocket, req);
+    });
+  });
+
+  wss.on('connection', (socket: GameSocket) => {
+    socket.on('pong', () => {
+      socket.isAlive = true;
+    });
+
+    socket.on('message', async (raw) => {
+      try {
+        await handleClientMessage(socket, JSON.parse(raw.toString()));
+      } catch (error) {
+        console.error("Error handling game socket message:", error);
+      }
+    });
+
+    // A bad frame from the client ends its connection, not the server
+    socket.on('error', (error) => {
+      console.error("Game socket error:", error);
+      socket.terminate();
+    });
+
+    socket.on('close', () => {
+      Array.from(socket.gameIds).forEach((gameId) => unsubscribe(socket, gameId));
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      const socket = ws as GameSocket;
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, 30000);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
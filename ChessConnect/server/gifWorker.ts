@@ -0,0 +1,14 @@
+import { parentPort } from "worker_threads";
+import { encodeGif, type GifJob, type GifJobResult } from "./boardImage";
+
+// Entry point for the worker thread boardImage.ts starts for each game
+// animation; it encodes one GIF and is then terminated.
+parentPort?.on("message", async (job: GifJob) => {
+  let result: GifJobResult;
+  try {
+    result = { gif: await encodeGif(job) };
+  } catch (error) {
+    result = { error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(result);
+});
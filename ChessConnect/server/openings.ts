@@ -0,0 +1,55 @@
+import { Chess } from "chess.js";
+import type { InsertGame } from "@shared/schema";
+import { ECO_OPENINGS } from "./ecoData";
+import { getPositionKey } from "./engine";
+
+export interface Opening {
+  eco: string;
+  name: string;
+}
+
+// Every ECO entry by the position its moves reach, so openings are
+// recognised however the game got there (transpositions included)
+let openingsByPosition: Map<string, Opening> | undefined;
+
+function getOpeningIndex(): Map<string, Opening> {
+  if (openingsByPosition) return openingsByPosition;
+
+  openingsByPosition = new Map();
+  for (const [eco, name, moves] of ECO_OPENINGS) {
+    const chess = new Chess();
+    try {
+      for (const san of moves.split(" ")) chess.move(san);
+    } catch {
+      console.error(`Skipping invalid ECO line ${eco} ${name}: ${moves}`);
+      continue;
+    }
+
+    const key = getPositionKey(chess.fen());
+    if (!openingsByPosition.has(key)) {
+      openingsByPosition.set(key, { eco, name });
+    }
+  }
+  return openingsByPosition;
+}
+
+export function getOpening(fen: string): Opening | undefined {
+  return getOpeningIndex().get(getPositionKey(fen));
+}
+
+// The most specific opening reached over a whole game
+export function classifyOpening(fens: string[]): Opening | undefined {
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = getOpening(fens[i]);
+    if (opening) return opening;
+  }
+  return undefined;
+}
+
+// Game fields to set after a move. A game keeps the last opening it passed
+// through, so nothing changes once it has left the book.
+export function getOpeningUpdate(fen: string): Pick<InsertGame, "eco" | "openingName"> {
+  const opening = getOpening(fen);
+  return opening ? { eco: opening.eco, openingName: opening.name } : {};
+}
+
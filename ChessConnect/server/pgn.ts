@@ -0,0 +1,202 @@
+import { Chess } from "chess.js";
+import type { Game, GameAnalysis, GameMove, MoveClassification, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getStartFen } from "@shared/position";
+
+const PGN_RESULTS: Record<string, string> = {
+  white_wins: "1-0",
+  black_wins: "0-1",
+  draw: "1/2-1/2",
+};
+
+// PGN only knows a handful of termination reasons; the rest end normally
+const PGN_TERMINATIONS: Record<string, string> = {
+  timeout: "Time forfeit",
+  timeout_vs_insufficient_material: "Time forfeit",
+};
+
+const CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  inaccuracy: "Inaccuracy",
+  mistake: "Mistake",
+  blunder: "Blunder",
+};
+
+function getPlayerName(player?: User): string {
+  if (!player) return "?";
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Anonymous";
+}
+
+function formatPgnDate(date: Date): string {
+  const d = new Date(date);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${d.getUTCFullYear()}.${pad(d.getUTCMonth() + 1)}.${pad(d.getUTCDate())}`;
+}
+
+// Clock comment in the %clk format most PGN viewers understand
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+}
+
+// The PGN TimeControl tag is "base+increment" in seconds; it has no notation
+// for a Bronstein delay, so that goes in a tag of its own.
+function setTimeControlHeaders(chess: Chess, game: Game) {
+  chess.setHeader("TimeControl", `${game.timeControl ?? 600}+${game.timeIncrement || 0}`);
+  if (game.timeDelay) {
+    chess.setHeader("TimeDelay", String(game.timeDelay));
+  }
+}
+
+function formatDiff(diff: number): string {
+  return diff > 0 ? `+${diff}` : String(diff);
+}
+
+export function buildPgn(game: Game, moves: GameMove[], white?: User, black?: User): string {
+  const chess = new Chess(getStartFen(game));
+  const rated = game.whiteRating !== undefined && game.blackRating !== undefined;
+  const category = game.ratingCategory
+    ? game.ratingCategory.charAt(0).toUpperCase() + game.ratingCategory.slice(1)
+    : "Chess";
+
+  chess.setHeader("Event", `${rated ? "Rated" : "Casual"} ${category} game`);
+  chess.setHeader("Site", "ChessConnect");
+  chess.setHeader("Date", formatPgnDate(game.createdAt));
+  chess.setHeader("Round", "-");
+  chess.setHeader("White", getPlayerName(white));
+  chess.setHeader("Black", getPlayerName(black));
+  chess.setHeader("Result", (game.result && PGN_RESULTS[game.result]) || "*");
+
+  // Ratings going into the game; otherwise the players' current ratings
+  const whiteElo = game.whiteRating ?? white?.rating;
+  const blackElo = game.blackRating ?? black?.rating;
+  if (whiteElo !== undefined) chess.setHeader("WhiteElo", String(whiteElo));
+  if (blackElo !== undefined) chess.setHeader("BlackElo", String(blackElo));
+  if (game.whiteRatingChange !== undefined) chess.setHeader("WhiteRatingDiff", formatDiff(game.whiteRatingChange));
+  if (game.blackRatingChange !== undefined) chess.setHeader("BlackRatingDiff", formatDiff(game.blackRatingChange));
+
+  setTimeControlHeaders(chess, game);
+
+  // Readers need the set-up position to replay the moves
+  if (game.startFen) {
+    chess.setHeader("SetUp", "1");
+    chess.setHeader("FEN", game.startFen);
+  }
+
+  if (game.eco) chess.setHeader("ECO", game.eco);
+  if (game.openingName) chess.setHeader("Opening", game.openingName);
+
+  if (game.status === "completed") {
+    chess.setHeader("Termination", (game.termination && PGN_TERMINATIONS[game.termination]) || "Normal");
+  } else {
+    chess.setHeader("Termination", "Unterminated");
+  }
+
+  for (const move of moves) {
+    chess.move(move.move);
+    if (move.timeRemaining !== undefined && move.timeRemaining !== null) {
+      chess.setComment(`[%clk ${formatClock(move.timeRemaining)}]`);
+    }
+  }
+
+  return chess.pgn();
+}
+
+async function buildGamePgn(game: Game): Promise<string> {
+  const moves = await storage.getGameMoves(game._id.toString());
+  const white = game.whitePlayerId ? await storage.getUser(game.whitePlayerId) : undefined;
+  const black = game.blackPlayerId ? await storage.getUser(game.blackPlayerId) : undefined;
+
+  return buildPgn(game, moves, white, black);
+}
+
+// Rebuild and store the PGN from the recorded moves. Called when a game ends,
+// so the result, termination and rating headers are filled in.
+export async function refreshGamePgn(gameId: string): Promise<Game | undefined> {
+  const game = await storage.getGame(gameId);
+  if (!game) return undefined;
+
+  return storage.updateGame(gameId, { pgn: await buildGamePgn(game) });
+}
+
+// The stored PGN, built on first request for games that don't have one yet
+export async function getGamePgn(game: Game): Promise<string> {
+  if (game.pgn) return game.pgn;
+  return (await refreshGamePgn(game._id.toString()))?.pgn ?? "";
+}
+
+function setPgnHeader(headers: string, name: string, value: string): string {
+  const line = `[${name} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`;
+  const pattern = new RegExp(`^\\[${name} ".*"\\]$`, "m");
+  return pattern.test(headers) ? headers.replace(pattern, () => line) : `${headers}\n${line}`;
+}
+
+// The game's PGN with one more move, to store alongside it. The move text is
+// extended rather than rebuilt, so a move costs the same however long the game
+// is; `game` is as it was before the move.
+export async function getPgnAfterMove(
+  game: Game,
+  san: string,
+  timeRemaining: number | undefined,
+  opening: Pick<Game, "eco" | "openingName">,
+): Promise<string> {
+  // Games without a stored PGN yet start from the moves recorded so far
+  const pgn = game.pgn || await buildGamePgn(game);
+
+  // Header lines end in "]"; comments in the move text are wrapped in braces
+  const headerEnd = pgn.lastIndexOf("]\n");
+  let headers = pgn.slice(0, headerEnd + 1);
+  const movetext = pgn.slice(headerEnd + 2).replace(/\*\s*$/, "").trim();
+
+  if (opening.eco) headers = setPgnHeader(headers, "ECO", opening.eco);
+  if (opening.openingName) headers = setPgnHeader(headers, "Opening", opening.openingName);
+
+  const [, side, , , , fullMove] = game.fen.split(" ");
+  const number = side === "w" ? `${fullMove}. ` : movetext ? "" : `${fullMove}. ... `;
+  const clock = timeRemaining !== undefined ? ` {[%clk ${formatClock(timeRemaining)}]}` : "";
+
+  return `${headers}\n\n${movetext ? `${movetext} ` : ""}${number}${san}${clock} *`;
+}
+
+// %eval comments are in pawns from white's side
+function formatEvaluation(centipawns: number): string {
+  return (centipawns / 100).toFixed(2);
+}
+
+// The game's PGN with the engine's verdict added to each move's comment: an
+// %eval tag and, for inaccuracies, mistakes and blunders, the better move.
+// Existing headers and comments (clock times) are kept.
+export function buildAnnotatedPgn(pgn: string, analysis: GameAnalysis): string {
+  const source = new Chess();
+  source.loadPgn(pgn);
+  const headers = source.getHeaders();
+  const comments = new Map(source.getComments().map(({ fen, comment }) => [fen, comment]));
+  const analyzedMoves = new Map(analysis.moves.map((move) => [move.ply, move]));
+
+  const chess = new Chess(headers.SetUp === "1" && headers.FEN ? headers.FEN : undefined);
+  for (const [name, value] of Object.entries(headers)) {
+    chess.setHeader(name, value);
+  }
+  chess.setHeader("Annotator", `ChessConnect${analysis.engine ? ` (${analysis.engine})` : ""}`);
+
+  source.history().forEach((san, i) => {
+    chess.move(san);
+    const analyzed = analyzedMoves.get(i + 1);
+    const parts = [comments.get(chess.fen())];
+
+    if (analyzed?.evaluation !== undefined) {
+      parts.push(`[%eval ${formatEvaluation(analyzed.evaluation)}]`);
+    }
+    if (analyzed?.classification) {
+      parts.push(`${CLASSIFICATION_LABELS[analyzed.classification]}.` +
+        (analyzed.bestMove ? ` ${analyzed.bestMove} was best.` : ""));
+    }
+
+    const comment = parts.filter(Boolean).join(" ");
+    if (comment) chess.setComment(comment);
+  });
+
+  return chess.pgn();
+}
@@ -0,0 +1,157 @@
+import { Chess } from "chess.js";
+import type { Game, InsertGame, InsertGameMove } from "@shared/schema";
+import { getRatingCategory } from "@shared/timeControl";
+import { storage } from "./storage";
+import { getGameOverTermination } from "./gameResults";
+import { classifyOpening } from "./openings";
+
+export const MAX_IMPORT_GAMES = 500;
+
+const RESULTS_FROM_PGN: Record<string, string> = {
+  "1-0": "white_wins",
+  "0-1": "black_wins",
+  "1/2-1/2": "draw",
+};
+
+export interface ImportedGameSummary {
+  index: number; // 1-based position of the game in the upload
+  gameId: string;
+  white?: string;
+  black?: string;
+  result?: string;
+  moveCount: number;
+}
+
+export interface ImportError {
+  index: number;
+  message: string;
+}
+
+export interface PgnImportResult {
+  games: ImportedGameSummary[];
+  errors: ImportError[];
+}
+
+// Split a PGN database into its games. A header line after some movetext
+// starts the next game.
+export function splitPgnGames(text: string): string[] {
+  const games: string[] = [];
+  let current: string[] = [];
+  let seenMoves = false;
+
+  for (const line of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("[") && seenMoves) {
+      games.push(current.join("\n"));
+      current = [];
+      seenMoves = false;
+    }
+    if (trimmed && !trimmed.startsWith("[")) {
+      seenMoves = true;
+    }
+    current.push(line);
+  }
+
+  if (current.some((line) => line.trim())) {
+    games.push(current.join("\n"));
+  }
+  return games;
+}
+
+// Header values of "?" or "-" mean unknown
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const value = headers[name]?.trim();
+  return value && value !== "?" && value !== "-" ? value : undefined;
+}
+
+// Only the simple "base+increment" form; multi-period controls are left unset
+function parseTimeControl(value?: string): Pick<InsertGame, "timeControl" | "timeIncrement" | "ratingCategory"> {
+  const match = value?.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) return {};
+
+  const timeControl = parseInt(match[1], 10);
+  const timeIncrement = match[2] ? parseInt(match[2], 10) : 0;
+  return { timeControl, timeIncrement, ratingCategory: getRatingCategory(timeControl, timeIncrement, 0) };
+}
+
+function parseClock(comment?: string): number | undefined {
+  const match = comment?.match(/\[%clk\s+(\d+):(\d+):(\d+(?:\.\d+)?)\]/);
+  if (!match) return undefined;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+function getTermination(chess: Chess, headers: Record<string, string>): string | undefined {
+  if (chess.isGameOver()) return getGameOverTermination(chess);
+  if (getHeader(headers, "Termination")?.toLowerCase() === "time forfeit") return "timeout";
+  return undefined;
+}
+
+// Parse and validate one game. Throws with chess.js's message when the
+// movetext contains an illegal or unreadable move.
+export function parseImportedGame(pgn: string): { game: InsertGame; moves: Omit<InsertGameMove, "gameId">[] } {
+  const chess = new Chess();
+  chess.loadPgn(pgn);
+
+  const history = chess.history({ verbose: true });
+  if (history.length === 0) {
+    throw new Error("Game has no moves");
+  }
+
+  const headers = chess.getHeaders();
+  const clocks = new Map(chess.getComments().map(({ fen, comment }) => [fen, parseClock(comment)]));
+
+  const moves = history.map((move, i) => ({
+    moveNumber: i + 1,
+    move: move.san,
+    fen: move.after,
+    timeRemaining: clocks.get(move.after),
+  }));
+
+  const opening = classifyOpening(moves.map((move) => move.fen));
+
+  const game: InsertGame = {
+    ...parseTimeControl(getHeader(headers, "TimeControl")),
+    result: RESULTS_FROM_PGN[headers.Result],
+    termination: getTermination(chess, headers),
+    currentTurn: chess.turn() === "w" ? "white" : "black",
+    pgn: chess.pgn(),
+    fen: chess.fen(),
+    startFen: headers.SetUp === "1" && headers.FEN ? headers.FEN : undefined,
+    whitePlayerName: getHeader(headers, "White"),
+    blackPlayerName: getHeader(headers, "Black"),
+    event: getHeader(headers, "Event"),
+    eco: opening?.eco,
+    openingName: opening?.name,
+  };
+
+  return { game, moves };
+}
+
+// Import the games split out of an upload for `ownerId`. Games that fail to
+// parse are reported and skipped; the rest are stored.
+export async function importPgnGames(ownerId: string, pgns: string[]): Promise<PgnImportResult> {
+  const result: PgnImportResult = { games: [], errors: [] };
+
+  for (let i = 0; i < pgns.length; i++) {
+    const index = i + 1;
+    let parsed;
+    try {
+      parsed = parseImportedGame(pgns[i]);
+    } catch (error) {
+      result.errors.push({ index, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const game: Game = await storage.importGame({ ...parsed.game, ownerId }, parsed.moves);
+    result.games.push({
+      index,
+      gameId: game._id.toString(),
+      white: game.whitePlayerName,
+      black: game.blackPlayerName,
+      result: game.result,
+      moveCount: parsed.moves.length,
+    });
+  }
+
+  return result;
+}
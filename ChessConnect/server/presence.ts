@@ -0,0 +1,209 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Game, PresenceClientMessage, PresenceEvent, PresenceStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { getSessionUserId } from "./replitAuth";
+
+export const PRESENCE_SOCKET_PATH = "/ws/presence";
+
+// Reloading or leaving the site for a moment drops the connection; friends
+// only hear that someone went offline if they stay away this long
+const OFFLINE_GRACE_PERIOD = 5000;
+
+interface PresenceSocket extends WebSocket {
+  userId: string;
+  isAlive: boolean;
+  isIdle: boolean;
+}
+
+export interface Presence {
+  status: PresenceStatus;
+  gameId?: string;
+}
+
+// userId -> that user's open connections, one per tab
+const connections = new Map<string, Set<PresenceSocket>>();
+const offlineTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// What friends were last told about each user, so that repeated updates with
+// nothing new aren't broadcast; users missing here were last seen offline
+const lastBroadcast = new Map<string, string>();
+
+// Online while any tab is in use, idle when all of them are
+function getConnectionStatus(userId: string): 'online' | 'idle' | 'offline' {
+  const sockets = connections.get(userId);
+  if (!sockets || sockets.size === 0) return 'offline';
+  return Array.from(sockets).some((socket) => !socket.isIdle) ? 'online' : 'idle';
+}
+
+// Presence comes from the users' connections; a connected user with an
+// active game is playing it
+export async function getPresences(userIds: string[]): Promise<Map<string, Presence>> {
+  const connectedIds = userIds.filter((userId) => getConnectionStatus(userId) !== 'offline');
+  const games = await storage.getActiveGamesForPlayers(connectedIds);
+
+  const presences = new Map<string, Presence>();
+  for (const userId of userIds) {
+    const game = connectedIds.includes(userId)
+      ? games.find((game) => game.whitePlayerId === userId || game.blackPlayerId === userId)
+      : undefined;
+    presences.set(userId, game ? { status: 'playing', gameId: game._id.toString() } : { status: getConnectionStatus(userId) });
+  }
+  return presences;
+}
+
+// Sends an event to all of a user's open tabs
+export function notifyUser(userId: string, event: PresenceEvent) {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(event);
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
+
+// Tell a user's connected friends what they are up to, if that changed
+export async function broadcastPresence(userId: string) {
+  const presence = (await getPresences([userId])).get(userId)!;
+  const summary = `${presence.status}:${presence.gameId ?? ''}`;
+  if ((lastBroadcast.get(userId) ?? 'offline:') === summary) return;
+
+  if (presence.status === 'offline') {
+    lastBroadcast.delete(userId);
+  } else {
+    lastBroadcast.set(userId, summary);
+  }
+
+  const friendIds = await storage.getFriendIds(userId);
+  friendIds.forEach((friendId) => notifyUser(friendId, { type: 'presence', userId, ...presence }));
+}
+
+// Games starting and ending move their players in and out of 'playing'
+export function broadcastGamePresence(game: Pick<Game, 'whitePlayerId' | 'blackPlayerId'>) {
+  [game.whitePlayerId, game.blackPlayerId].forEach((playerId) => {
+    if (!playerId) return;
+    broadcastPresence(playerId).catch((error) => console.error("Error broadcasting presence:", error));
+  });
+}
+
+// The user's friend list or requests changed; their client refetches them
+export function notifyFriendsChanged(userId: string) {
+  notifyUser(userId, { type: 'friends-changed' });
+}
+
+function addConnection(socket: PresenceSocket) {
+  let sockets = connections.get(socket.userId);
+  if (!sockets) {
+    sockets = new Set();
+    connections.set(socket.userId, sockets);
+  }
+  sockets.add(socket);
+
+  clearTimeout(offlineTimers.get(socket.userId));
+  offlineTimers.delete(socket.userId);
+}
+
+function removeConnection(socket: PresenceSocket) {
+  const sockets = connections.get(socket.userId);
+  if (!sockets) return;
+
+  sockets.delete(socket);
+  if (sockets.size > 0) return;
+
+  connections.delete(socket.userId);
+  offlineTimers.set(socket.userId, setTimeout(() => {
+    offlineTimers.delete(socket.userId);
+    broadcastPresence(socket.userId).catch((error) => console.error("Error broadcasting presence:", error));
+  }, OFFLINE_GRACE_PERIOD));
+}
+
+async function handleClientMessage(socket: PresenceSocket, data: PresenceClientMessage) {
+  if (data.type !== 'idle' && data.type !== 'active') return;
+
+  const isIdle = data.type === 'idle';
+  if (socket.isIdle === isIdle) return;
+  socket.isIdle = isIdle;
+  await broadcastPresence(socket.userId);
+}
+
+export function setupPresenceSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '', 'http://localhost');
+    if (pathname !== PRESENCE_SOCKET_PATH) return;
+
+    let userId: string | undefined;
+    try {
+      userId = await getSessionUserId(req);
+    } catch (error) {
+      console.error("Error authenticating presence socket:", error);
+      socket.destroy();
+      return;
+    }
+    if (!userId) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const presenceSocket = ws as PresenceSocket;
+      presenceSocket.userId = userId;
+      presenceSocket.isAlive = true;
+      presenceSocket.isIdle = false;
+      wss.emit('connection', presenceSocket, req);
+    });
+  });
+
+  wss.on('connection', (socket: PresenceSocket) => {
+    addConnection(socket);
+    broadcastPresence(socket.userId).catch((error) => console.error("Error broadcasting presence:", error));
+
+    socket.on('pong', () => {
+      socket.isAlive = true;
+    });
+
+    socket.on('message', async (raw) => {
+      try {
+        await handleClientMessage(socket, JSON.parse(raw.toString()));
+      } catch (error) {
+        console.error("Error handling presence socket message:", error);
+      }
+    });
+
+    // A bad frame from the client ends its connection, not the server
+    socket.on('error', (error) => {
+      console.error("Presence socket error:", error);
+      socket.terminate();
+    });
+
+    socket.on('close', () => {
+      removeConnection(socket);
+      // Closing one of several tabs can still change online/idle
+      if (connections.has(socket.userId)) {
+        broadcastPresence(socket.userId).catch((error) => console.error("Error broadcasting presence:", error));
+      }
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      const socket = ws as PresenceSocket;
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, 30000);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
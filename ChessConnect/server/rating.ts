@@ -0,0 +1,103 @@
+// Glicko-2 rating system (http://www.glicko.net/glicko/glicko2.pdf). Each game
+// is treated as its own rating period, so ratings move after every result.
+
+import type { RatingCategory } from "@shared/timeControl";
+
+export interface Rating {
+  rating: number;
+  ratingDeviation: number;
+  ratingVolatility: number;
+}
+
+export const DEFAULT_RATING: Rating = {
+  rating: 1200,
+  ratingDeviation: 350,
+  ratingVolatility: 0.06,
+};
+
+// Constrains how quickly volatility can change; 0.3-1.2 is the usual range
+const TAU = 0.5;
+const GLICKO2_SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+const MIN_DEVIATION = 30;
+const MAX_DEVIATION = 350;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+// Step 5 of the paper: solve for the new volatility with the Illinois algorithm
+function computeVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+// New rating for `player` after scoring `score` (1 win, 0.5 draw, 0 loss)
+// against `opponent`. Both inputs should be the ratings from before the game.
+export function calculateRating(player: Rating, opponent: Rating, score: number): Rating {
+  const mu = (player.rating - 1500) / GLICKO2_SCALE;
+  const phi = player.ratingDeviation / GLICKO2_SCALE;
+  const opponentMu = (opponent.rating - 1500) / GLICKO2_SCALE;
+  const opponentPhi = opponent.ratingDeviation / GLICKO2_SCALE;
+
+  const gPhi = g(opponentPhi);
+  const expected = expectedScore(mu, opponentMu, opponentPhi);
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  const newSigma = computeVolatility(phi, player.ratingVolatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected);
+
+  const ratingDeviation = Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, newPhi * GLICKO2_SCALE));
+
+  return {
+    rating: Math.round(newMu * GLICKO2_SCALE + 1500),
+    ratingDeviation: Math.round(ratingDeviation * 100) / 100,
+    ratingVolatility: newSigma,
+  };
+}
+
+// Everything a finished rated game changes for one player: the overall rating
+// and the rating in the game's time-control pool.
+export interface RatingUpdate {
+  overall: Rating;
+  category: RatingCategory;
+  pool: Rating;
+}
@@ -0,0 +1,70 @@
+import { Types } from "mongoose";
+import type { Game, RematchSeries } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcastGameEvent, canWatchGame } from "./gameSocket";
+import { broadcastGamePresence } from "./presence";
+import { isBotPlayer } from "./gameResults";
+import { playBotMove } from "./botPlayer";
+import { scheduleFlagCheck } from "./clock";
+
+function getSeriesId(game: Game): string {
+  return (game.seriesId ?? game._id).toString();
+}
+
+// Starts the rematch of a finished game: same time control, starting position
+// and rated flag, colors swapped. Returns undefined when a rematch was already
+// started or, with offeredBy, that player's offer is no longer open.
+export async function startRematch(game: Game, offeredBy?: string): Promise<Game | undefined> {
+  const gameId = game._id.toString();
+  const rematchGameId = new Types.ObjectId().toString();
+  if (!await storage.claimRematch(gameId, rematchGameId, offeredBy)) return undefined;
+
+  const rematch = await storage.createGame({
+    whitePlayerId: game.blackPlayerId,
+    blackPlayerId: game.whitePlayerId,
+    timeControl: game.timeControl,
+    timeIncrement: game.timeIncrement,
+    timeDelay: game.timeDelay,
+    whiteTimeRemaining: game.timeControl,
+    blackTimeRemaining: game.timeControl,
+    startFen: game.startFen,
+    rated: game.rated,
+    rematchOf: gameId,
+    seriesId: getSeriesId(game),
+    lastMoveAt: new Date(),
+  }, rematchGameId);
+  scheduleFlagCheck(rematch);
+
+  broadcastGamePresence(rematch);
+  // Both players are still on the old game's page; this takes them across
+  broadcastGameEvent({ type: 'rematch', gameId, rematchGameId });
+
+  if (isBotPlayer(rematch.whitePlayerId)) {
+    playBotMove(rematchGameId).catch((error) => console.error("Error making bot move:", error));
+  }
+  return rematch;
+}
+
+// Head-to-head score over the chain: a point for a win, half for a draw.
+// Games still being played in private are left out for anyone but the players.
+export async function getRematchSeries(game: Game, userId: string): Promise<RematchSeries> {
+  const seriesId = getSeriesId(game);
+  const games = (await storage.getSeriesGames(seriesId)).filter((seriesGame) => canWatchGame(seriesGame, userId));
+
+  const scores: Record<string, number> = {};
+  for (const seriesGame of games) {
+    const { whitePlayerId, blackPlayerId, result } = seriesGame;
+    if (seriesGame.status !== 'completed' || !whitePlayerId || !blackPlayerId) continue;
+
+    scores[whitePlayerId] = (scores[whitePlayerId] ?? 0) + (result === 'white_wins' ? 1 : result === 'draw' ? 0.5 : 0);
+    scores[blackPlayerId] = (scores[blackPlayerId] ?? 0) + (result === 'black_wins' ? 1 : result === 'draw' ? 0.5 : 0);
+  }
+
+  return {
+    seriesId,
+    games: games.map(({ _id, whitePlayerId, blackPlayerId, status, result, createdAt }) =>
+      ({ _id, whitePlayerId, blackPlayerId, status, result, createdAt })
+    ),
+    scores,
+  };
+}
@@ -4,7 +4,8 @@ import crypto from "crypto";
 
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import MongoStore from "connect-mongo";
 import { storage } from "./storage";
@@ -84,9 +85,13 @@ async function upsertUser(
   });
 }
 
+// Kept so non-Express requests (WebSocket upgrades) can share the same sessions
+let sessionMiddleware: RequestHandler | undefined;
+
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -188,6 +193,27 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
 };
 
+// Resolve the logged-in user id for a raw HTTP request, such as a WebSocket
+// upgrade, by running it through the session middleware.
+export function getSessionUserId(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(undefined);
+    }
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const user = (req as any).session?.passport?.user;
+      if (!user || !user.expires_at || !user.claims?.sub) {
+        return resolve(undefined);
+      }
+
+      // Expired sessions are refreshed by the next HTTP request, not here
+      const now = Math.floor(Date.now() / 1000);
+      resolve(now <= user.expires_at ? user.claims.sub : undefined);
+    });
+  });
+}
+
 export function createSessionMiddleware() {
   const sessionStore = MongoStore.create({
     mongoUrl: process.env.DATABASE_URL!,
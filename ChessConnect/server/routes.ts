@@ -3,13 +3,37 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { 
-  insertGameSchema, 
   insertGameMoveSchema, 
   insertChatMessageSchema,
-  insertMatchmakingQueueSchema 
+  insertMatchmakingQueueSchema,
+  gameSearchSchema,
+  boardImageSchema,
+  gameAnimationSchema,
+  createChallengeSchema,
+  createGameSchema,
+  createBotGameSchema,
+  liveGamesSchema
 } from "@shared/schema";
-import { Chess } from "chess.js";
-import { ChessBot } from "./bot";
+import { Chess, validateFen } from "chess.js";
+import { playBotMove, resumeBotMoves } from "./botPlayer";
+import { seedBotProfiles } from "./botProfiles";
+import { buildAnnotatedPgn, getGamePgn, getPgnAfterMove } from "./pgn";
+import { setupGameSocket, broadcastGameEvent, canWatchGame, removeSpectators } from "./gameSocket";
+import { endGame, getGameOverTermination, isBotPlayer } from "./gameResults";
+import { checkFlagFall, getClockAfterMove, getLiveClock, restoreFlagChecks, scheduleFlagCheck, withLiveClock } from "./clock";
+import { RATING_CATEGORIES, type RatingCategory } from "@shared/timeControl";
+import { START_FEN, getStartFenError } from "@shared/position";
+import { importPgnGames, MAX_IMPORT_GAMES, splitPgnGames } from "./pgnImport";
+import { requestAnalysis, resumeAnalyses } from "./analysis";
+import { getOpening, getOpeningUpdate } from "./openings";
+import { backfillExplorer, getExplorerPosition } from "./explorer";
+import { EXPORT_FORMATS, streamGameArchive, type ExportFormat } from "./export";
+import { GifRenderBusyError, parseBoardMove, renderBoardPng, renderBoardSvg, renderGameGif, type BoardImageOptions } from "./boardImage";
+import { broadcastGamePresence, notifyFriendsChanged, setupPresenceSocket } from "./presence";
+import { getFriendList, getFriendRequests, getOtherUserId } from "./friends";
+import { getRematchSeries, startRematch } from "./rematch";
+import { acceptChallenge, closeChallenge, createChallenge, getChallengeList, startChallengeExpiry, withPlayers } from "./challenges";
+import { getWatchList } from "./watch";
 import multer from "multer";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -29,6 +53,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   });
 
+  const pgnUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB, a few thousand games
+    },
+    // No MIME type filter: PGN files arrive as anything from text/plain to
+    // application/octet-stream, and whatever isn't PGN fails to parse anyway
+  });
+
   // Auth middleware
   await setupAuth(app);
 
@@ -125,14 +158,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/games', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const gameData = insertGameSchema.parse(req.body);
+      const parsed = createGameSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid game settings", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { startFen, ...gameData } = parsed.data;
+
+      // Games from a set-up position are casual; see updatePlayerStats
+      const startFenError = startFen ? getStartFenError(startFen) : undefined;
+      if (startFenError) {
+        return res.status(400).json({ message: startFenError });
+      }
 
       const game = await storage.createGame({
         ...gameData,
+        startFen: !startFen || startFen === START_FEN ? undefined : startFen,
         whitePlayerId: userId,
-        whiteTimeRemaining: gameData.timeControl || 600,
-        blackTimeRemaining: gameData.timeControl || 600,
+        whiteTimeRemaining: gameData.timeControl,
+        blackTimeRemaining: gameData.timeControl,
+        lastMoveAt: new Date(),
       });
+      scheduleFlagCheck(game);
+      broadcastGamePresence(game);
 
       res.json(game);
     } catch (error) {
@@ -141,46 +188,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/bots', isAuthenticated, async (req, res) => {
+    try {
+      const bots = await storage.getBotProfiles();
+      res.json(bots);
+    } catch (error) {
+      console.error("Error fetching bots:", error);
+      res.status(500).json({ message: "Failed to fetch bots" });
+    }
+  });
+
   // Create bot game
   app.post('/api/games/bot', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { difficulty = 'medium', timeControl = 600, playerColor = 'white' } = req.body;
+      const parsed = createBotGameSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid game settings", errors: parsed.error.flatten().fieldErrors });
+      }
+      const { botId, timeControl, timeIncrement, timeDelay, playerColor } = parsed.data;
+      const startFen = parsed.data.startFen || undefined;
+
+      const botProfile = await storage.getBotProfile(botId);
+      if (!botProfile) {
+        return res.status(400).json({ message: "Unknown bot" });
+      }
 
-      const botId = `bot_${difficulty}_${Date.now()}`;
+      const startFenError = startFen ? getStartFenError(startFen) : undefined;
+      if (startFenError) {
+        return res.status(400).json({ message: startFenError });
+      }
 
       const game = await storage.createGame({
         whitePlayerId: playerColor === 'white' ? userId : botId,
         blackPlayerId: playerColor === 'white' ? botId : userId,
         timeControl: timeControl,
+        timeIncrement,
+        timeDelay,
         whiteTimeRemaining: timeControl,
         blackTimeRemaining: timeControl,
+        startFen: startFen === START_FEN ? undefined : startFen,
+        lastMoveAt: new Date(),
       });
+      scheduleFlagCheck(game);
+      broadcastGamePresence(game);
 
-      // If bot is white, make first move
-      if (playerColor === 'black') {
-        const bot = new ChessBot(difficulty);
-        const botMove = bot.getBestMove("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1");
-
-        const chess = new Chess();
-        const move = chess.move(botMove.move);
-
-        if (move) {
-          await storage.addGameMove({
-            gameId: game._id?.toString() || game.id,
-            moveNumber: 1,
-            move: move.san,
-            fen: chess.fen(),
-            timeRemaining: timeControl,
-          });
-
-          await storage.updateGame(game._id?.toString() || game.id, {
-            fen: chess.fen(),
-            currentTurn: 'black',
-            moveCount: 1,
-          });
-        }
-      }
+      // If the bot has the first move it makes it in the background
+      playBotMove(game._id.toString()).catch((error) => console.error("Error making bot move:", error));
 
       res.json(game);
     } catch (error) {
@@ -189,7 +243,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/games/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/games/:id', isAuthenticated, async (req: any, res) => {
     try {
       const gameId = req.params.id;
 
@@ -197,13 +251,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid game ID" });
       }
 
-      const game = await storage.getGameWithPlayers(gameId);
+      let game = await storage.getGameWithPlayers(gameId);
 
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      res.json(game);
+      // Anyone else opening the game is spectating it
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      // Catch a flag fall the timer hasn't handled yet (e.g. right after a restart)
+      if (await checkFlagFall(game)) {
+        game = (await storage.getGameWithPlayers(gameId))!;
+      }
+
+      // Report the clocks as of now rather than as of the last move
+      res.json(withLiveClock(game));
     } catch (error) {
       console.error("Error fetching game:", error);
       res.status(500).json({ message: "Failed to fetch game" });
@@ -215,7 +280,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.params.userId;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
-      const games = await storage.getUserGames(userId, limit, page);
+      const opening = typeof req.query.opening === 'string' && req.query.opening ? req.query.opening : undefined;
+      const games = await storage.getUserGames(userId, limit, page, opening);
       res.json(games);
     } catch (error) {
       console.error("Error fetching user games:", error);
@@ -223,6 +289,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Filtered, sorted and paginated history of finished games; see gameSearchSchema
+  app.get('/api/users/:userId/games/search', isAuthenticated, async (req, res) => {
+    try {
+      const search = gameSearchSchema.safeParse(req.query);
+      if (!search.success) {
+        return res.status(400).json({ message: "Invalid search", errors: search.error.flatten().fieldErrors });
+      }
+
+      const results = await storage.searchUserGames(req.params.userId, search.data);
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching user games:", error);
+      res.status(500).json({ message: "Failed to search games" });
+    }
+  });
+
+  // Public games being played, highest rated first, plus one to feature
+  app.get('/api/watch', isAuthenticated, async (req, res) => {
+    try {
+      const query = liveGamesSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid watch filters", errors: query.error.flatten().fieldErrors });
+      }
+
+      res.json(await getWatchList(query.data));
+    } catch (error) {
+      console.error("Error fetching live games:", error);
+      res.status(500).json({ message: "Failed to fetch live games" });
+    }
+  });
+
+  app.get('/api/users/:userId/openings', isAuthenticated, async (req, res) => {
+    try {
+      const openings = await storage.getUserOpenings(req.params.userId);
+      res.json(openings);
+    } catch (error) {
+      console.error("Error fetching user openings:", error);
+      res.status(500).json({ message: "Failed to fetch user openings" });
+    }
+  });
+
+  // Rated games only; `from` and `to` are optional ISO dates
+  app.get('/api/users/:userId/rating-history', isAuthenticated, async (req, res) => {
+    try {
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      const history = await storage.getRatingHistory(req.params.userId, from, to);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching rating history:", error);
+      res.status(500).json({ message: "Failed to fetch rating history" });
+    }
+  });
+
   // Game move routes
   app.post('/api/games/:id/moves', isAuthenticated, async (req: any, res) => {
     try {
@@ -237,12 +361,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Missing required move data" });
       }
 
+      // The clock is kept by the server; any timeRemaining the client sends is ignored
       const moveData = insertGameMoveSchema.parse({
         gameId,
         moveNumber: req.body.moveNumber,
         move: req.body.move,
         fen: req.body.fen,
-        timeRemaining: req.body.timeRemaining,
       });
 
       // Get current game state
@@ -251,6 +375,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
+      if (game.status !== 'active') {
+        return res.status(400).json({ message: "Game is not active" });
+      }
+
       // Verify it's the player's turn
       const isWhitePlayer = game.whitePlayerId === userId;
       const isBlackPlayer = game.blackPlayerId === userId;
@@ -266,131 +394,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Not your turn" });
       }
 
+      // A move that arrives after the flag fell doesn't count
+      const movedAt = new Date();
+      const timedOutGame = await checkFlagFall(game, movedAt);
+      if (timedOutGame) {
+        return res.status(400).json({ message: "Time expired", game: timedOutGame });
+      }
+
       // Validate move with chess.js
-      const chess = new Chess(game.fen || "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1");
+      const chess = new Chess(game.fen || START_FEN);
       const move = chess.move(moveData.move);
 
       if (!move) {
         return res.status(400).json({ message: "Invalid move" });
       }
 
+      const clock = getClockAfterMove(game, movedAt);
+      const timeRemaining = isWhitePlayer ? clock.whiteTimeRemaining : clock.blackTimeRemaining;
+      const opening = getOpeningUpdate(chess.fen());
+      const pgn = await getPgnAfterMove(game, move.san, timeRemaining, opening);
+
       // Add move to database
       const gameMove = await storage.addGameMove({
         gameId,
         moveNumber: (game.moveCount || 0) + 1,
         move: move.san,
         fen: chess.fen(),
-        timeRemaining: moveData.timeRemaining,
+        timeRemaining,
       });
 
-      // Update game state
-      const gameStatus = chess.isGameOver() ? 'completed' : 'active';
-      let result = null;
-
-      if (chess.isCheckmate()) {
-        result = game.currentTurn === 'white' ? 'black_wins' : 'white_wins';
-      } else if (chess.isDraw() || chess.isStalemate()) {
-        result = 'draw';
-      }
-
-      const updatedGame = await storage.updateGame(gameId, {
+      let updatedGame = await storage.updateGame(gameId, {
         fen: chess.fen(),
         currentTurn: game.currentTurn === 'white' ? 'black' : 'white',
         moveCount: (game.moveCount || 0) + 1,
-        status: gameStatus,
-        result: result || undefined,
-        whiteTimeRemaining: isWhitePlayer ? moveData.timeRemaining : game.whiteTimeRemaining,
-        blackTimeRemaining: isBlackPlayer ? moveData.timeRemaining : game.blackTimeRemaining,
+        whiteTimeRemaining: clock.whiteTimeRemaining,
+        blackTimeRemaining: clock.blackTimeRemaining,
+        lastMoveAt: movedAt,
+        pgn,
+        ...opening,
       });
 
-      // Update player stats if game is over
-      if (result) {
-        if (result === 'white_wins') {
-          if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.whitePlayerId, 'win');
-          }
-          if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.blackPlayerId, 'loss');
-          }
-        } else if (result === 'black_wins') {
-          if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.blackPlayerId, 'win');
-          }
-          if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.whitePlayerId, 'loss');
-          }
-        } else {
-          if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.whitePlayerId, 'draw');
-          }
-          if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-            await storage.updateUserStats(game.blackPlayerId, 'draw');
-          }
-        }
+      broadcastGameEvent({ type: 'move', gameId, move: gameMove, game: updatedGame });
+
+      if (chess.isGameOver()) {
+        const result = chess.isCheckmate()
+          ? (game.currentTurn === 'white' ? 'white_wins' : 'black_wins')
+          : 'draw';
+        updatedGame = await endGame(updatedGame, result, getGameOverTermination(chess)!) || updatedGame;
+      } else {
+        scheduleFlagCheck(updatedGame);
       }
 
-      // Make bot move if it's bot's turn and game is still active
-      let botMove = null;
+      // The bot replies in the background; its move arrives over the game socket
       if (updatedGame.status === 'active') {
-        const opponentId = updatedGame.currentTurn === 'white' ? 
-          updatedGame.whitePlayerId : updatedGame.blackPlayerId;
-
-        if (opponentId && opponentId.startsWith('bot_')) {
-          const difficulty = opponentId.split('_')[1] as 'easy' | 'medium' | 'hard';
-          const bot = new ChessBot(difficulty);
-
-          try {
-            const botMoveData = bot.getBestMove(updatedGame.fen);
-            const chessForBot = new Chess(updatedGame.fen);
-            const move = chessForBot.move(botMoveData.move);
-
-            if (move) {
-              const botGameMove = await storage.addGameMove({
-                gameId: gameId,
-                moveNumber: (updatedGame.moveCount || 0) + 1,
-                move: move.san,
-                fen: chessForBot.fen(),
-                timeRemaining: updatedGame.currentTurn === 'white' ? 
-                  updatedGame.whiteTimeRemaining : updatedGame.blackTimeRemaining,
-              });
-
-              const botGameStatus = chessForBot.isGameOver() ? 'completed' : 'active';
-              let botResult = null;
-
-              if (chessForBot.isCheckmate()) {
-                botResult = updatedGame.currentTurn === 'white' ? 'white_wins' : 'black_wins';
-              } else if (chessForBot.isDraw() || chessForBot.isStalemate()) {
-                botResult = 'draw';
-              }
-
-              const finalGame = await storage.updateGame(gameId, {
-                fen: chessForBot.fen(),
-                currentTurn: updatedGame.currentTurn === 'white' ? 'black' : 'white',
-                moveCount: (updatedGame.moveCount || 0) + 1,
-                status: botGameStatus,
-                result: botResult || undefined,
-              });
-
-              botMove = { move: botGameMove, game: finalGame };
-            }
-          } catch (error) {
-            console.error("Error making bot move:", error);
-          }
-        }
+        playBotMove(gameId).catch((error) => console.error("Error making bot move:", error));
       }
 
-      res.json({ 
-        move: gameMove, 
-        game: botMove ? botMove.game : updatedGame,
-        botMove: botMove ? botMove.move : null 
-      });
+      res.json({ move: gameMove, game: updatedGame });
     } catch (error) {
       console.error("Error making move:", error);
       res.status(500).json({ message: "Failed to make move" });
     }
   });
 
-  app.get('/api/games/:id/moves', isAuthenticated, async (req, res) => {
+  app.get('/api/games/:id/pgn', isAuthenticated, async (req: any, res) => {
     try {
       const gameId = req.params.id;
 
@@ -398,6 +465,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid game ID" });
       }
 
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      const pgn = await getGamePgn(game);
+
+      res.setHeader('Content-Type', 'application/x-chess-pgn');
+      res.setHeader('Content-Disposition', `attachment; filename="game-${gameId}.pgn"`);
+      res.send(pgn);
+    } catch (error) {
+      console.error("Error exporting PGN:", error);
+      res.status(500).json({ message: "Failed to export PGN" });
+    }
+  });
+
+  app.get('/api/games/:id/analysis', isAuthenticated, async (req: any, res) => {
+    try {
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      const analysis = await storage.getGameAnalysis(req.params.id);
+      if (!analysis) {
+        return res.status(404).json({ message: "Game has not been analysed" });
+      }
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error fetching analysis:", error);
+      res.status(500).json({ message: "Failed to fetch analysis" });
+    }
+  });
+
+  // Start a computer analysis of a finished game; it runs in the background
+  // and the client polls the GET route above for progress
+  app.post('/api/games/:id/analysis', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameId = req.params.id;
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      if (game.whitePlayerId !== userId && game.blackPlayerId !== userId && game.ownerId !== userId) {
+        return res.status(403).json({ message: "Only the players can analyse this game" });
+      }
+
+      if (game.status !== 'completed') {
+        return res.status(400).json({ message: "Only finished games can be analysed" });
+      }
+
+      const existing = await storage.getGameAnalysis(gameId);
+      if (existing && (existing.status === 'pending' || existing.status === 'running')) {
+        return res.json(existing);
+      }
+
+      res.json(await requestAnalysis(gameId));
+    } catch (error) {
+      console.error("Error requesting analysis:", error);
+      res.status(500).json({ message: "Failed to request analysis" });
+    }
+  });
+
+  app.get('/api/games/:id/analysis/pgn', isAuthenticated, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      const analysis = await storage.getGameAnalysis(gameId);
+      if (!analysis || analysis.status !== 'completed') {
+        return res.status(404).json({ message: "Game has not been analysed" });
+      }
+
+      const pgn = await getGamePgn(game);
+
+      res.setHeader('Content-Type', 'application/x-chess-pgn');
+      res.setHeader('Content-Disposition', `attachment; filename="game-${gameId}-annotated.pgn"`);
+      res.send(buildAnnotatedPgn(pgn, analysis));
+    } catch (error) {
+      console.error("Error exporting annotated PGN:", error);
+      res.status(500).json({ message: "Failed to export annotated PGN" });
+    }
+  });
+
+  // Upload a PGN file (or pasted PGN text) with one or more games to add to
+  // the user's library
+  app.post('/api/games/import', isAuthenticated, pgnUpload.single('pgn'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const text: string = req.file ? req.file.buffer.toString('utf8') : req.body.pgn;
+
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        return res.status(400).json({ message: "No PGN provided" });
+      }
+
+      const pgns = splitPgnGames(text);
+      if (pgns.length > MAX_IMPORT_GAMES) {
+        return res.status(400).json({ message: `At most ${MAX_IMPORT_GAMES} games can be imported at once` });
+      }
+
+      res.json(await importPgnGames(userId, pgns));
+    } catch (error) {
+      console.error("Error importing PGN:", error);
+      res.status(500).json({ message: "Failed to import PGN" });
+    }
+  });
+
+  app.get('/api/library', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const games = await storage.getImportedGames(userId, limit, page);
+      res.json(games);
+    } catch (error) {
+      console.error("Error fetching library:", error);
+      res.status(500).json({ message: "Failed to fetch library" });
+    }
+  });
+
+  // Download every game the user has played or imported, streamed as it is read
+  app.get('/api/export', isAuthenticated, async (req: any, res) => {
+    const format = (req.query.format || 'pgn') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ message: "Format must be pgn or json" });
+    }
+
+    try {
+      await streamGameArchive(req.user.claims.sub, format, res);
+    } catch (error) {
+      console.error("Error exporting games:", error);
+      // Once the download has started the status can't change; cut it short
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ message: "Failed to export games" });
+      }
+    }
+  });
+
+  app.get('/api/games/:id/moves', isAuthenticated, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+
+      if (!gameId || gameId === 'undefined') {
+        return res.status(400).json({ message: "Invalid game ID" });
+      }
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
       const moves = await storage.getGameMoves(gameId);
       res.json(moves);
     } catch (error) {
@@ -422,30 +662,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not a player in this game" });
       }
 
-      const result = game.whitePlayerId === userId ? 'black_wins' : 'white_wins';
+      // Resigning after the flag fell is too late; the game is already lost on time
+      const timedOutGame = await checkFlagFall(game);
+      if (timedOutGame) {
+        return res.status(400).json({ message: "Time expired", game: timedOutGame });
+      }
 
-      const updatedGame = await storage.updateGame(gameId, {
-        status: 'completed',
-        result: result,
-      });
+      const result = game.whitePlayerId === userId ? 'black_wins' : 'white_wins';
 
-      // Update player stats
-      if (result === 'white_wins') {
-        if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.whitePlayerId, 'win');
-        }
-        if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.blackPlayerId, 'loss');
-        }
-      } else {
-        if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.blackPlayerId, 'win');
-        }
-        if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.whitePlayerId, 'loss');
-        }
+      const updatedGame = await endGame(game, result, 'resignation', getLiveClock(game));
+      if (!updatedGame) {
+        return res.status(400).json({ message: "Game is not active" });
       }
 
+      broadcastGameEvent({ type: 'resign', gameId, playerId: userId, game: updatedGame });
+
       res.json(updatedGame);
     } catch (error) {
       console.error("Error resigning game:", error);
@@ -474,6 +705,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Store draw offer
       await storage.addDrawOffer(gameId, userId);
+      broadcastGameEvent({ type: 'draw-offer', gameId, playerId: userId });
       res.json({ message: "Draw offer sent" });
     } catch (error) {
       console.error("Error offering draw:", error);
@@ -501,26 +733,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not a player in this game" });
       }
 
+      const timedOutGame = await checkFlagFall(game);
+      if (timedOutGame) {
+        return res.status(400).json({ message: "Time expired", game: timedOutGame });
+      }
+
+      // Only an offer from the opponent can be answered
+      const opponentId = game.whitePlayerId === userId ? game.blackPlayerId : game.whitePlayerId;
+      const offers = opponentId ? await storage.getDrawOffers(gameId, opponentId) : [];
+      if (offers.length === 0) {
+        return res.status(409).json({ message: "Your opponent has not offered a draw" });
+      }
+
       // Remove draw offers
       await storage.removeDrawOffers(gameId);
 
       if (accept) {
         // End game in draw
-        const updatedGame = await storage.updateGame(gameId, {
-          status: 'completed',
-          result: 'draw',
-        });
-
-        // Update player stats
-        if (game.whitePlayerId && !game.whitePlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.whitePlayerId, 'draw');
-        }
-        if (game.blackPlayerId && !game.blackPlayerId.startsWith('bot_')) {
-          await storage.updateUserStats(game.blackPlayerId, 'draw');
+        const updatedGame = await endGame(game, 'draw', 'draw_agreement', getLiveClock(game));
+        if (!updatedGame) {
+          return res.status(400).json({ message: "Game is not active" });
         }
 
         res.json({ accepted: true, game: updatedGame });
       } else {
+        broadcastGameEvent({ type: 'draw-declined', gameId, playerId: userId });
         res.json({ accepted: false });
       }
     } catch (error) {
@@ -555,7 +792,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Chat routes
+  // Offers a rematch, or accepts the opponent's offer; against a bot the
+  // rematch starts right away
+  app.post('/api/games/:id/rematch', isAuthenticated, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const userId = req.user.claims.sub;
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+      if (!isPlayer) {
+        return res.status(403).json({ message: "Not a player in this game" });
+      }
+
+      const opponentId = game.whitePlayerId === userId ? game.blackPlayerId : game.whitePlayerId;
+      if (game.status !== 'completed' || !opponentId) {
+        return res.status(400).json({ message: "Game is not over" });
+      }
+      if (game.rematchGameId) {
+        return res.status(409).json({ message: "A rematch was already started", rematchGameId: game.rematchGameId });
+      }
+
+      if (isBotPlayer(opponentId) || game.rematchOfferedBy === opponentId) {
+        const rematch = await startRematch(game, isBotPlayer(opponentId) ? undefined : opponentId);
+        if (!rematch) {
+          return res.status(409).json({ message: "This rematch is no longer available" });
+        }
+        return res.json({ started: true, game: rematch });
+      }
+
+      const updatedGame = await storage.offerRematch(gameId, userId);
+      if (!updatedGame) {
+        return res.status(409).json({ message: "A rematch has already been offered" });
+      }
+
+      broadcastGameEvent({ type: 'rematch-offer', gameId, playerId: userId });
+      res.json({ started: false, game: updatedGame });
+    } catch (error) {
+      console.error("Error offering rematch:", error);
+      res.status(500).json({ message: "Failed to offer rematch" });
+    }
+  });
+
+  // Declines the opponent's rematch offer, or withdraws one's own
+  app.delete('/api/games/:id/rematch', isAuthenticated, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const userId = req.user.claims.sub;
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+      if (!isPlayer) {
+        return res.status(403).json({ message: "Not a player in this game" });
+      }
+
+      if (!await storage.clearRematchOffer(gameId)) {
+        return res.status(404).json({ message: "No rematch offer" });
+      }
+
+      broadcastGameEvent({ type: 'rematch-declined', gameId, playerId: userId });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error declining rematch:", error);
+      res.status(500).json({ message: "Failed to decline rematch" });
+    }
+  });
+
+  // The game's rematch chain with the head-to-head score
+  app.get('/api/games/:id/series', isAuthenticated, async (req: any, res) => {
+    try {
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, req.user.claims.sub)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+      res.json(await getRematchSeries(game, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching rematch series:", error);
+      res.status(500).json({ message: "Failed to fetch rematch series" });
+    }
+  });
+
+  // Players can mark their game private, which sends any spectators away
+  app.put('/api/games/:id/privacy', isAuthenticated, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const userId = req.user.claims.sub;
+
+      if (typeof req.body.private !== 'boolean') {
+        return res.status(400).json({ message: "private must be true or false" });
+      }
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+      if (!isPlayer) {
+        return res.status(403).json({ message: "Not a player in this game" });
+      }
+
+      if (game.status !== 'active') {
+        return res.status(400).json({ message: "Game is not active" });
+      }
+
+      const updatedGame = await storage.updateGame(gameId, { private: req.body.private });
+
+      broadcastGameEvent({ type: 'privacy', gameId, private: req.body.private });
+      if (req.body.private) {
+        removeSpectators(gameId);
+      }
+
+      res.json(updatedGame);
+    } catch (error) {
+      console.error("Error updating game privacy:", error);
+      res.status(500).json({ message: "Failed to update game privacy" });
+    }
+  });
+
+  // Chat routes. Players and spectators each have their own chat; which one a
+  // message goes to depends on who sends it.
   app.post('/api/games/:id/chat', isAuthenticated, async (req: any, res) => {
     try {
       const gameId = req.params.id;
@@ -565,13 +932,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid game ID" });
       }
 
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, userId)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
       const messageData = insertChatMessageSchema.parse({
         gameId,
         playerId: userId,
         message: req.body.message,
+        channel: isPlayer ? 'players' : 'spectators',
       });
 
       const chatMessage = await storage.addChatMessage(messageData);
+
+      const player = await storage.getUser(userId);
+      if (player) {
+        const message = Object.assign(chatMessage, { player });
+        if (isPlayer) {
+          broadcastGameEvent({ type: 'chat', gameId, message }, 'players', game);
+        } else {
+          // The players get to read the spectators' chat after the game
+          broadcastGameEvent({ type: 'spectator-chat', gameId, message }, game.status === 'active' ? 'spectators' : 'everyone', game);
+        }
+      }
+
       res.json(chatMessage);
     } catch (error) {
       console.error("Error sending chat message:", error);
@@ -579,10 +968,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/games/:id/chat', isAuthenticated, async (req, res) => {
+  app.get('/api/games/:id/chat', isAuthenticated, async (req: any, res) => {
     try {
       const gameId = req.params.id;
-      const messages = await storage.getChatMessages(gameId);
+      const userId = req.user.claims.sub;
+      const channel = req.query.channel === 'spectators' ? 'spectators' : 'players';
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const isPlayer = game.whitePlayerId === userId || game.blackPlayerId === userId;
+      const canRead = channel === 'players'
+        ? isPlayer
+        : canWatchGame(game, userId) && (!isPlayer || game.status !== 'active');
+      if (!canRead) {
+        return res.status(403).json({ message: "Not allowed to read this chat" });
+      }
+
+      const messages = await storage.getChatMessages(gameId, channel);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching chat messages:", error);
@@ -594,16 +999,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/matchmaking', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const entryData = insertMatchmakingQueueSchema.parse({
+      const parsed = insertMatchmakingQueueSchema.safeParse({
         playerId: userId,
-        timeControl: req.body.timeControl || 600,
-        ratingRange: req.body.ratingRange || 200,
+        timeControl: req.body.timeControl ?? 600,
+        timeIncrement: req.body.timeIncrement ?? 0,
+        timeDelay: req.body.timeDelay ?? 0,
+        ratingRange: req.body.ratingRange ?? 200,
       });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid time control", errors: parsed.error.flatten().fieldErrors });
+      }
+      const entryData = parsed.data;
 
       // Check for existing opponent
       const opponent = await storage.findMatchmakingOpponent(
         userId,
-        entryData.timeControl!,
+        {
+          timeControl: entryData.timeControl!,
+          timeIncrement: entryData.timeIncrement!,
+          timeDelay: entryData.timeDelay!,
+        },
         entryData.ratingRange!
       );
 
@@ -616,9 +1031,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           whitePlayerId: isCurrentPlayerWhite ? userId : opponent.playerId,
           blackPlayerId: isCurrentPlayerWhite ? opponent.playerId : userId,
           timeControl: entryData.timeControl,
+          timeIncrement: entryData.timeIncrement,
+          timeDelay: entryData.timeDelay,
           whiteTimeRemaining: entryData.timeControl,
           blackTimeRemaining: entryData.timeControl,
+          lastMoveAt: new Date(),
         });
+        scheduleFlagCheck(game);
+        broadcastGamePresence(game);
 
         // Remove both players from queue
         await storage.removeFromMatchmaking(userId);
@@ -760,11 +1180,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Opening explorer: the moves played from `fen` in games on the site, or
+  // with `scope=personal` only in the current user's games
+  app.get('/api/explorer', isAuthenticated, async (req: any, res) => {
+    try {
+      const fen = typeof req.query.fen === 'string' && req.query.fen ? req.query.fen : START_FEN;
+      if (!validateFen(fen).ok) {
+        return res.status(400).json({ message: "Invalid FEN" });
+      }
+      const scope = req.query.scope === 'personal' ? 'personal' : 'global';
+
+      const position = await getExplorerPosition(fen, scope === 'personal' ? req.user.claims.sub : undefined);
+      res.json({ fen, scope, opening: getOpening(fen) ?? null, ...position });
+    } catch (error) {
+      console.error("Error fetching explorer position:", error);
+      res.status(500).json({ message: "Failed to fetch explorer position" });
+    }
+  });
+
+  // Board images are public so link previews, Open Graph crawlers and
+  // newsletters can load them without a session
+  app.get('/api/board.:format(svg|png)', async (req, res) => {
+    try {
+      const query = boardImageSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid board options", errors: query.error.flatten().fieldErrors });
+      }
+
+      const fen = query.data.fen || START_FEN;
+      if (!validateFen(fen).ok) {
+        return res.status(400).json({ message: "Invalid FEN" });
+      }
+
+      const options: BoardImageOptions = {
+        fen,
+        orientation: query.data.orientation,
+        lastMove: query.data.lastMove ? parseBoardMove(query.data.lastMove) : undefined,
+        arrows: query.data.arrows.map(parseBoardMove),
+        coordinates: query.data.coordinates,
+      };
+
+      // The same query always draws the same image
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      if (req.params.format === 'svg') {
+        res.type('image/svg+xml').send(renderBoardSvg(options));
+      } else {
+        res.type('image/png').send(await renderBoardPng(options, query.data.size));
+      }
+    } catch (error) {
+      console.error("Error rendering board image:", error);
+      res.status(500).json({ message: "Failed to render board image" });
+    }
+  });
+
+  app.get('/api/games/:id/animation.gif', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = gameAnimationSchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid animation options", errors: query.error.flatten().fieldErrors });
+      }
+
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (!canWatchGame(game, userId)) {
+        return res.status(403).json({ message: "This game is private" });
+      }
+
+      const moves = await storage.getGameMoves(req.params.id);
+      const gif = await renderGameGif(game, moves, query.data);
+
+      // A game in progress gets new moves; a finished one never changes
+      res.setHeader('Cache-Control', game.status === 'completed' ? 'private, max-age=86400' : 'no-store');
+      res.type('image/gif').send(gif);
+    } catch (error) {
+      if (error instanceof GifRenderBusyError) {
+        return res.status(503).json({ message: "Too many animations are being rendered; try again shortly" });
+      }
+      console.error("Error rendering game animation:", error);
+      res.status(500).json({ message: "Failed to render game animation" });
+    }
+  });
+
   // Leaderboard route
   app.get('/api/leaderboard', isAuthenticated, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
-      const leaderboard = await storage.getLeaderboard(limit);
+      const category = req.query.category as RatingCategory | undefined;
+      if (category && !RATING_CATEGORIES.includes(category)) {
+        return res.status(400).json({ message: "Invalid rating category" });
+      }
+      const leaderboard = await storage.getLeaderboard(limit, category);
       res.json(leaderboard);
     } catch (error) {
       console.error("Error fetching leaderboard:", error);
@@ -772,6 +1280,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Friends
+  app.get('/api/friends', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getFriendList(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching friends:", error);
+      res.status(500).json({ message: "Failed to fetch friends" });
+    }
+  });
+
+  app.get('/api/friends/requests', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getFriendRequests(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching friend requests:", error);
+      res.status(500).json({ message: "Failed to fetch friend requests" });
+    }
+  });
+
+  // Players to send friend requests to, found by name
+  app.get('/api/users/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (query.length < 2) {
+        return res.json([]);
+      }
+      res.json(await storage.searchUsers(query, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error searching users:", error);
+      res.status(500).json({ message: "Failed to search users" });
+    }
+  });
+
+  app.post('/api/friends/requests', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { userId: otherUserId } = req.body;
+
+      if (!otherUserId || typeof otherUserId !== 'string') {
+        return res.status(400).json({ message: "userId is required" });
+      }
+      if (otherUserId === userId) {
+        return res.status(400).json({ message: "You can't add yourself as a friend" });
+      }
+
+      const otherUser = await storage.getUser(otherUserId);
+      if (!otherUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (otherUser.isBot) {
+        return res.status(400).json({ message: "Bots can't be added as friends" });
+      }
+
+      const existing = await storage.getFriendship(userId, otherUserId);
+      if (existing?.status === 'accepted') {
+        return res.status(409).json({ message: "You are already friends" });
+      }
+      if (existing?.requesterId === userId) {
+        return res.status(409).json({ message: "Friend request already sent" });
+      }
+
+      // They asked first: asking back is as good as accepting
+      const friendship = existing
+        ? await storage.acceptFriendRequest(existing._id.toString())
+        : await storage.createFriendRequest({ requesterId: userId, addresseeId: otherUserId });
+
+      notifyFriendsChanged(userId);
+      notifyFriendsChanged(otherUserId);
+      res.json(friendship);
+    } catch (error) {
+      console.error("Error sending friend request:", error);
+      res.status(500).json({ message: "Failed to send friend request" });
+    }
+  });
+
+  app.post('/api/friends/requests/:id/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const request = await storage.getFriendshipById(req.params.id);
+      if (!request || request.status !== 'pending' || request.addresseeId !== userId) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+
+      const friendship = await storage.acceptFriendRequest(req.params.id);
+
+      notifyFriendsChanged(userId);
+      notifyFriendsChanged(request.requesterId);
+      res.json(friendship);
+    } catch (error) {
+      console.error("Error accepting friend request:", error);
+      res.status(500).json({ message: "Failed to accept friend request" });
+    }
+  });
+
+  // Declines a request received, or withdraws one sent
+  app.delete('/api/friends/requests/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const request = await storage.getFriendshipById(req.params.id);
+      if (!request || request.status !== 'pending' || (request.addresseeId !== userId && request.requesterId !== userId)) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+
+      await storage.deleteFriendship(req.params.id);
+
+      notifyFriendsChanged(userId);
+      notifyFriendsChanged(getOtherUserId(request, userId));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error declining friend request:", error);
+      res.status(500).json({ message: "Failed to decline friend request" });
+    }
+  });
+
+  app.delete('/api/friends/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const friendship = await storage.getFriendship(userId, req.params.userId);
+      if (!friendship || friendship.status !== 'accepted') {
+        return res.status(404).json({ message: "Not friends with this user" });
+      }
+
+      await storage.deleteFriendship(friendship._id.toString());
+
+      notifyFriendsChanged(userId);
+      notifyFriendsChanged(req.params.userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing friend:", error);
+      res.status(500).json({ message: "Failed to remove friend" });
+    }
+  });
+
+  app.get('/api/challenges', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await getChallengeList(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching challenges:", error);
+      res.status(500).json({ message: "Failed to fetch challenges" });
+    }
+  });
+
+  // Without a targetUserId the challenge gets a join code for anyone to accept
+  app.post('/api/challenges', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = createChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid challenge", errors: parsed.error.flatten().fieldErrors });
+      }
+
+      const { targetUserId, startFen } = parsed.data;
+      const startFenError = startFen ? getStartFenError(startFen) : undefined;
+      if (startFenError) {
+        return res.status(400).json({ message: startFenError });
+      }
+
+      if (targetUserId) {
+        if (targetUserId === userId) {
+          return res.status(400).json({ message: "You can't challenge yourself" });
+        }
+        const target = await storage.getUser(targetUserId);
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        if (target.isBot) {
+          return res.status(400).json({ message: "Bots are played from the home page" });
+        }
+        if (await storage.findPendingChallenge(userId, targetUserId)) {
+          return res.status(409).json({ message: "You already challenged this player" });
+        }
+      }
+
+      res.json(await createChallenge(userId, parsed.data));
+    } catch (error) {
+      console.error("Error creating challenge:", error);
+      res.status(500).json({ message: "Failed to create challenge" });
+    }
+  });
+
+  // What a join link points at, shown before accepting
+  app.get('/api/challenges/code/:code', isAuthenticated, async (req, res) => {
+    try {
+      const challenge = await storage.getChallengeByCode(req.params.code.toUpperCase());
+      const result = challenge && await withPlayers(challenge);
+      if (!result) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching challenge:", error);
+      res.status(500).json({ message: "Failed to fetch challenge" });
+    }
+  });
+
+  app.post('/api/challenges/:id/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || (challenge.targetUserId && challenge.targetUserId !== userId)) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      if (challenge.challengerId === userId) {
+        return res.status(400).json({ message: "You can't accept your own challenge" });
+      }
+
+      const game = await acceptChallenge(challenge, userId);
+      if (!game) {
+        return res.status(409).json({ message: "This challenge is no longer open" });
+      }
+      res.json(game);
+    } catch (error) {
+      console.error("Error accepting challenge:", error);
+      res.status(500).json({ message: "Failed to accept challenge" });
+    }
+  });
+
+  app.post('/api/challenges/:id/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || challenge.targetUserId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      if (!await closeChallenge(challenge, 'declined')) {
+        return res.status(409).json({ message: "This challenge is no longer open" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error declining challenge:", error);
+      res.status(500).json({ message: "Failed to decline challenge" });
+    }
+  });
+
+  // Cancels a challenge the user sent
+  app.delete('/api/challenges/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || challenge.challengerId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      if (!await closeChallenge(challenge, 'cancelled')) {
+        return res.status(409).json({ message: "This challenge is no longer open" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling challenge:", error);
+      res.status(500).json({ message: "Failed to cancel challenge" });
+    }
+  });
+
   const httpServer = createServer(app);
+
+  // Real-time game channel; the REST routes above stay available as a fallback
+  setupGameSocket(httpServer);
+  // Who is online, for friend lists, and challenge notifications
+  setupPresenceSocket(httpServer);
+
+  // Re-arm flag-fall timers for games that were running before a restart
+  restoreFlagChecks();
+
+  // Make sure the default bots exist, then let bots that were thinking
+  // before a restart make their moves
+  seedBotProfiles().then(resumeBotMoves);
+  resumeAnalyses();
+  backfillExplorer();
+  startChallengeExpiry();
+
   return httpServer;
 }
\ No newline at end of file
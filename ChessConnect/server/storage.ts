@@ -4,6 +4,12 @@ import {
   GameMoveModel,
   ChatMessageModel,
   MatchmakingQueueModel,
+  RatingHistoryModel,
+  BotProfileModel,
+  GameAnalysisModel,
+  ExplorerStatModel,
+  FriendshipModel,
+  ChallengeModel,
   type User,
   type UpsertUser,
   type Game,
@@ -11,44 +17,123 @@ import {
   type GameMove,
   type InsertGameMove,
   type ChatMessage,
+  type ChatChannel,
   type InsertChatMessage,
   type MatchmakingEntry,
   type InsertMatchmakingEntry,
+  type RatingHistoryEntry,
+  type InsertRatingHistoryEntry,
+  type BotProfile,
+  type InsertBotProfile,
+  type GameAnalysis,
+  type InsertExplorerGame,
+  type ExplorerMoveStats,
+  type GameSearch,
+  type LiveGamesQuery,
+  type GameSearchResult,
+  type Friendship,
+  type InsertFriendship,
+  type Challenge,
+  type ChallengeStatus,
+  type InsertChallenge,
 } from "@shared/schema";
-import { Schema, model } from "mongoose";
+import { getRatingCategory, type RatingCategory, type TimeControl } from "@shared/timeControl";
+import { START_FEN, getSideToMove } from "@shared/position";
+import type { RatingUpdate } from "./rating";
+import { Schema, model, type FilterQuery } from "mongoose";
 import { connectToMongoDB } from "./mongoose";
 
+export type GameAnalysisUpdate = Partial<Pick<GameAnalysis,
+  'status' | 'engine' | 'progress' | 'initialEvaluation' | 'moves' | 'whiteAverageLoss' | 'blackAverageLoss' | 'error' | 'completedAt'
+>>;
+
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
 
   // Game operations
-  createGame(game: InsertGame): Promise<Game>;
+  createGame(game: InsertGame, id?: string): Promise<Game>;
   getGame(id: string): Promise<Game | undefined>;
   getGameWithPlayers(id: string): Promise<Game & { whitePlayer: User | null; blackPlayer: User | null } | undefined>;
   updateGame(id: string, updates: Partial<InsertGame>): Promise<Game>;
-  getUserGames(userId: string, limit?: number, page?: number): Promise<Game[]>;
+  completeGame(id: string, updates: Partial<InsertGame>): Promise<Game | undefined>;
+  offerRematch(id: string, playerId: string): Promise<Game | undefined>;
+  clearRematchOffer(id: string): Promise<Game | undefined>;
+  claimRematch(id: string, rematchGameId: string, offeredBy?: string): Promise<Game | undefined>;
+  getSeriesGames(seriesId: string): Promise<Game[]>;
+  getActiveGames(): Promise<Game[]>;
+  getUserGames(userId: string, limit?: number, page?: number, opening?: string): Promise<Game[]>;
+  getUserOpenings(userId: string): Promise<{ opening: string; count: number }[]>;
+  searchUserGames(userId: string, search: GameSearch): Promise<GameSearchResult>;
+  getLiveGames(query: LiveGamesQuery): Promise<Game[]>;
+  importGame(game: InsertGame, moves: Omit<InsertGameMove, 'gameId'>[]): Promise<Game>;
+  getImportedGames(ownerId: string, limit?: number, page?: number): Promise<Game[]>;
+  iterateUserGames(userId: string): AsyncGenerator<Game>;
 
   // Game move operations
   addGameMove(move: InsertGameMove): Promise<GameMove>;
   getGameMoves(gameId: string): Promise<GameMove[]>;
+  iterateGameMoves(gameId: string): AsyncGenerator<GameMove>;
+
+  // Opening explorer
+  addGameToExplorer(gameId: string, entry: InsertExplorerGame): Promise<boolean>;
+  markExplorerIndexed(gameId: string): Promise<void>;
+  getGamesMissingFromExplorer(limit: number): Promise<Game[]>;
+  getExplorerMoveStats(positionKey: string, playerId?: string): Promise<ExplorerMoveStats[]>;
 
   // Chat operations
   addChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  getChatMessages(gameId: string): Promise<(ChatMessage & { player: User })[]>;
+  getChatMessages(gameId: string, channel?: ChatChannel): Promise<(ChatMessage & { player: User })[]>;
 
   // Matchmaking operations
   addToMatchmaking(entry: InsertMatchmakingEntry): Promise<MatchmakingEntry>;
-  findMatchmakingOpponent(playerId: string, timeControl: number, ratingRange: number): Promise<MatchmakingEntry | undefined>;
+  findMatchmakingOpponent(playerId: string, timeControl: TimeControl, ratingRange: number): Promise<MatchmakingEntry | undefined>;
   removeFromMatchmaking(playerId: string): Promise<void>;
   isPlayerInQueue(playerId: string): Promise<boolean>;
 
   // User stats
-  updateUserStats(userId: string, result: 'win' | 'loss' | 'draw'): Promise<void>;
+  updateUserStats(userId: string, result: 'win' | 'loss' | 'draw', rating?: RatingUpdate): Promise<void>;
+
+  // Rating history
+  addRatingHistory(entry: InsertRatingHistoryEntry): Promise<RatingHistoryEntry>;
+  getRatingHistory(userId: string, from?: Date, to?: Date): Promise<RatingHistoryEntry[]>;
+
+  // Bot profiles
+  getBotProfiles(): Promise<(BotProfile & { user: User })[]>;
+  getBotProfile(userId: string): Promise<BotProfile | undefined>;
+  createBotProfileIfMissing(profile: InsertBotProfile, profileImageUrl: string): Promise<void>;
+
+  // Post-game analysis
+  getGameAnalysis(gameId: string): Promise<GameAnalysis | undefined>;
+  resetGameAnalysis(gameId: string): Promise<GameAnalysis>;
+  updateGameAnalysis(gameId: string, updates: GameAnalysisUpdate): Promise<GameAnalysis | undefined>;
+  getUnfinishedAnalyses(): Promise<GameAnalysis[]>;
 
   // Leaderboard
-  getLeaderboard(limit: number): Promise<User[]>;
+  getLeaderboard(limit: number, category?: RatingCategory): Promise<User[]>;
+
+  // Friends
+  getUsersByIds(ids: string[]): Promise<User[]>;
+  searchUsers(query: string, excludeUserId: string, limit?: number): Promise<User[]>;
+  getFriendship(userId: string, otherUserId: string): Promise<Friendship | undefined>;
+  getFriendshipById(id: string): Promise<Friendship | undefined>;
+  createFriendRequest(request: InsertFriendship): Promise<Friendship>;
+  acceptFriendRequest(id: string): Promise<Friendship | undefined>;
+  deleteFriendship(id: string): Promise<void>;
+  getFriendships(userId: string, status: Friendship['status']): Promise<Friendship[]>;
+  getFriendIds(userId: string): Promise<string[]>;
+  getActiveGamesForPlayers(playerIds: string[]): Promise<Game[]>;
+
+  // Challenges
+  createChallenge(challenge: InsertChallenge): Promise<Challenge>;
+  getChallenge(id: string): Promise<Challenge | undefined>;
+  getChallengeByCode(code: string): Promise<Challenge | undefined>;
+  getPendingChallenges(userId: string): Promise<Challenge[]>;
+  findPendingChallenge(challengerId: string, targetUserId: string): Promise<Challenge | undefined>;
+  respondToChallenge(id: string, status: Exclude<ChallengeStatus, 'pending' | 'expired'>): Promise<Challenge | undefined>;
+  setChallengeGame(id: string, gameId: string): Promise<void>;
+  expireChallenges(): Promise<Challenge[]>;
 
   // Draw offers
   addDrawOffer(gameId: string, playerId: string): Promise<void>;
@@ -62,6 +147,43 @@ export interface IStorage {
   ): Promise<User>;
 }
 
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toChallenge(challenge: InstanceType<typeof ChallengeModel>): Challenge {
+  const challengeObj = challenge.toObject();
+  return {
+    ...challengeObj,
+    _id: challengeObj._id.toString(),
+    gameId: challengeObj.gameId?.toString(),
+  } as unknown as Challenge;
+}
+
+// Bots play at their target Elo whatever the time control
+async function getAverageRating(playerIds: (string | undefined)[], category: RatingCategory): Promise<number | undefined> {
+  const ids = playerIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return undefined;
+
+  const players = await UserModel.find({ id: { $in: ids } }).select('isBot rating ratings').exec();
+  const ratings = players.map(player =>
+    player.isBot ? player.rating : player.ratings?.[category]?.rating ?? player.rating
+  );
+  if (ratings.length === 0) return undefined;
+  return Math.round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length);
+}
+
+interface BulkWriteFailure {
+  index: number;
+  code?: number;
+}
+
+// The operations of an unordered bulkWrite that failed, by their index
+function getBulkWriteFailures(error: unknown): BulkWriteFailure[] {
+  const writeErrors = (error as { writeErrors?: BulkWriteFailure | BulkWriteFailure[] })?.writeErrors;
+  return writeErrors ? ([] as BulkWriteFailure[]).concat(writeErrors) : [];
+}
+
 export class DatabaseStorage implements IStorage {
   constructor() {
     connectToMongoDB().catch(console.error);
@@ -100,14 +222,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Game operations
-  async createGame(game: InsertGame): Promise<Game> {
+  // Games start from the standard position unless `startFen` is given
+  // The id can be chosen up front, e.g. so a rematch can be linked before it exists
+  async createGame(game: InsertGame, id?: string): Promise<Game> {
+    const fen = game.startFen || START_FEN;
+    const ratingCategory = getRatingCategory(game.timeControl, game.timeIncrement, game.timeDelay);
     const newGame = new GameModel({
+      ...(id && { _id: id }),
       ...game,
+      ratingCategory,
+      averageRating: await getAverageRating([game.whitePlayerId, game.blackPlayerId], ratingCategory),
       status: 'active',
-      currentTurn: 'white',
+      currentTurn: getSideToMove(fen),
       moveCount: 0,
       pgn: '',
-      fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      fen,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -182,14 +311,120 @@ export class DatabaseStorage implements IStorage {
     } as Game;
   }
 
-  async getUserGames(userId: string, limit = 10, page = 1): Promise<Game[]> {
+  // Only applies the updates if the game is still active, so a game can't be
+  // finished twice (e.g. a resignation racing a flag fall)
+  async completeGame(id: string, updates: Partial<InsertGame>): Promise<Game | undefined> {
+    const completedGame = await GameModel.findOneAndUpdate(
+      { _id: id, status: 'active' },
+      { ...updates, status: 'completed', updatedAt: new Date() },
+      { new: true }
+    ).exec();
+
+    if (!completedGame) return undefined;
+
+    const gameObj = completedGame.toObject();
+    return {
+      ...gameObj,
+      _id: gameObj._id.toString(),
+    } as unknown as Game;
+  }
+
+  // Rematch offers are made once the game is over, one at a time, and not
+  // after a rematch has been agreed
+  async offerRematch(id: string, playerId: string): Promise<Game | undefined> {
+    const game = await GameModel.findOneAndUpdate(
+      { _id: id, status: 'completed', rematchOfferedBy: { $exists: false }, rematchGameId: { $exists: false } },
+      { rematchOfferedBy: playerId },
+      { new: true }
+    ).exec();
+
+    if (!game) return undefined;
+
+    const gameObj = game.toObject();
+    return {
+      ...gameObj,
+      _id: gameObj._id.toString(),
+    } as unknown as Game;
+  }
+
+  async clearRematchOffer(id: string): Promise<Game | undefined> {
+    const game = await GameModel.findOneAndUpdate(
+      { _id: id, rematchOfferedBy: { $exists: true }, rematchGameId: { $exists: false } },
+      { $unset: { rematchOfferedBy: 1 } },
+      { new: true }
+    ).exec();
+
+    if (!game) return undefined;
+
+    const gameObj = game.toObject();
+    return {
+      ...gameObj,
+      _id: gameObj._id.toString(),
+    } as unknown as Game;
+  }
+
+  // Reserves the rematch's id on the finished game, so accepting twice (or
+  // both players accepting at once) only starts one rematch. offeredBy is
+  // whose offer is being accepted; bot games don't need one.
+  async claimRematch(id: string, rematchGameId: string, offeredBy?: string): Promise<Game | undefined> {
+    const game = await GameModel.findOneAndUpdate(
+      {
+        _id: id,
+        status: 'completed',
+        rematchGameId: { $exists: false },
+        ...(offeredBy && { rematchOfferedBy: offeredBy }),
+      },
+      { rematchGameId, $unset: { rematchOfferedBy: 1 } },
+      { new: true }
+    ).exec();
+
+    if (!game) return undefined;
+
+    const gameObj = game.toObject();
+    return {
+      ...gameObj,
+      _id: gameObj._id.toString(),
+    } as unknown as Game;
+  }
+
+  // The first game of a rematch chain and its rematches, oldest first
+  async getSeriesGames(seriesId: string): Promise<Game[]> {
+    const games = await GameModel
+      .find({ $or: [{ _id: seriesId }, { seriesId }] })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  async getActiveGames(): Promise<Game[]> {
+    const games = await GameModel.find({ status: 'active' }).exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  // `opening` is an opening family ("Sicilian Defense"), matching all its variations
+  async getUserGames(userId: string, limit = 10, page = 1, opening?: string): Promise<Game[]> {
     const skip = (page - 1) * limit;
     const games = await GameModel
       .find({
         $or: [
           { whitePlayerId: userId },
           { blackPlayerId: userId }
-        ]
+        ],
+        ...(opening && { openingName: { $regex: `^${escapeRegex(opening)}(:|$)` } }),
       })
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -205,6 +440,208 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // The opening families a player has played, most played first
+  async getUserOpenings(userId: string): Promise<{ opening: string; count: number }[]> {
+    return GameModel.aggregate([
+      {
+        $match: {
+          $or: [{ whitePlayerId: userId }, { blackPlayerId: userId }],
+          openingName: { $exists: true },
+        },
+      },
+      { $group: { _id: { $trim: { input: { $arrayElemAt: [{ $split: ['$openingName', ':'] }, 0] } } }, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, opening: '$_id', count: 1 } },
+    ]).exec();
+  }
+
+  // Public games being played, highest rated first. Served by the
+  // { status, averageRating } and { status, ratingCategory, averageRating }
+  // indexes, reading only what the watch page shows.
+  async getLiveGames(query: LiveGamesQuery): Promise<Game[]> {
+    const games = await GameModel
+      .find({
+        status: 'active',
+        ...(query.timeControl && { ratingCategory: query.timeControl }),
+        private: { $ne: true },
+        whitePlayerId: { $exists: true },
+        blackPlayerId: { $exists: true },
+      })
+      .sort({ averageRating: -1 })
+      .limit(query.limit)
+      .select([
+        'status', 'whitePlayerId', 'blackPlayerId', 'fen', 'currentTurn', 'moveCount', 'timeControl', 'timeIncrement',
+        'timeDelay', 'ratingCategory', 'whiteTimeRemaining', 'blackTimeRemaining', 'lastMoveAt', 'averageRating',
+        'eco', 'openingName', 'createdAt',
+      ])
+      .exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  // A player's finished games matching every given filter. Filters that depend
+  // on which side the player had (color, result, opponent) are applied per
+  // side, so each branch of the $or can use that side's index.
+  async searchUserGames(userId: string, search: GameSearch): Promise<GameSearchResult> {
+    let opponentIds: string[] | undefined;
+    if (search.opponent) {
+      const pattern = new RegExp(escapeRegex(search.opponent), 'i');
+      const opponents = await UserModel
+        .find({ $or: [{ firstName: pattern }, { lastName: pattern }, { id: search.opponent }] }, { id: 1 })
+        .limit(100)
+        .exec();
+      opponentIds = opponents.map(opponent => opponent.id);
+    }
+
+    const sides = search.color ? [search.color] : ['white', 'black'] as const;
+    const sideFilters = sides.map(side => {
+      const other = side === 'white' ? 'black' : 'white';
+      const winner = search.result === 'win' ? side : other;
+      return {
+        [`${side}PlayerId`]: userId,
+        ...(opponentIds && { [`${other}PlayerId`]: { $in: opponentIds } }),
+        ...(search.result && { result: search.result === 'draw' ? 'draw' : `${winner}_wins` }),
+      };
+    });
+
+    const moveCount: Record<string, number> = {};
+    // moveCount is in half-moves; a game of N full moves has 2N-1 or 2N
+    if (search.minMoves !== undefined) moveCount.$gte = search.minMoves * 2 - 1;
+    if (search.maxMoves !== undefined) moveCount.$lte = search.maxMoves * 2;
+
+    const createdAt: Record<string, Date> = {};
+    if (search.from) createdAt.$gte = search.from;
+    if (search.to) createdAt.$lte = search.to;
+
+    const query = {
+      ...(sideFilters.length === 1 ? sideFilters[0] : { $or: sideFilters }),
+      status: 'completed',
+      ...(search.timeControl && { ratingCategory: search.timeControl }),
+      ...(search.rated && { whiteRatingChange: { $exists: search.rated === 'rated' } }),
+      ...(search.opening && { openingName: { $regex: `^${escapeRegex(search.opening)}(:|$)` } }),
+      ...(search.termination && { termination: search.termination }),
+      ...(Object.keys(moveCount).length > 0 && { moveCount }),
+      ...(Object.keys(createdAt).length > 0 && { createdAt }),
+    };
+
+    const direction = search.order === 'asc' ? 1 : -1;
+    const sort: Record<string, 1 | -1> = search.sort === 'moves'
+      ? { moveCount: direction, createdAt: -1 }
+      : { createdAt: direction };
+
+    const [games, total] = await Promise.all([
+      GameModel
+        .find(query)
+        .sort(sort)
+        .skip((search.page - 1) * search.limit)
+        .limit(search.limit)
+        .exec(),
+      GameModel.countDocuments(query).exec(),
+    ]);
+
+    const gameObjs = games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+
+    const opponentIdsOnPage = Array.from(new Set(gameObjs
+      .map(game => game.whitePlayerId === userId ? game.blackPlayerId : game.whitePlayerId)
+      .filter((id): id is string => !!id)));
+    const opponents = await UserModel.find({ id: { $in: opponentIdsOnPage } }).exec();
+    const opponentsById = new Map(opponents.map(opponent => {
+      const opponentObj = opponent.toObject();
+      return [opponent.id, {
+        ...opponentObj,
+        _id: opponentObj._id.toString(),
+        email: opponentObj.email || undefined,
+        firstName: opponentObj.firstName || undefined,
+        lastName: opponentObj.lastName || undefined,
+        profileImageUrl: opponentObj.profileImageUrl || undefined,
+      } as unknown as User];
+    }));
+
+    return {
+      games: gameObjs.map(game => {
+        const opponentId = game.whitePlayerId === userId ? game.blackPlayerId : game.whitePlayerId;
+        return { ...game, opponent: (opponentId && opponentsById.get(opponentId)) || null } as Game & { opponent: User | null };
+      }),
+      total,
+      page: search.page,
+      limit: search.limit,
+    };
+  }
+
+  // Imported games are stored finished, with all their moves, in one go
+  async importGame(game: InsertGame, moves: Omit<InsertGameMove, 'gameId'>[]): Promise<Game> {
+    const newGame = new GameModel({
+      ...game,
+      imported: true,
+      status: 'completed',
+      moveCount: moves.length,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await newGame.save();
+
+    if (moves.length > 0) {
+      await GameMoveModel.insertMany(moves.map(move => ({ ...move, gameId: newGame._id })));
+    }
+
+    const gameObj = newGame.toObject();
+    return {
+      ...gameObj,
+      _id: gameObj._id.toString(),
+    } as unknown as Game;
+  }
+
+  async getImportedGames(ownerId: string, limit = 20, page = 1): Promise<Game[]> {
+    const skip = (page - 1) * limit;
+    const games = await GameModel
+      .find({ ownerId, imported: true })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  // Every game a player took part in or imported, oldest first, read through a
+  // cursor so archives of any size can be streamed
+  async *iterateUserGames(userId: string): AsyncGenerator<Game> {
+    const cursor = GameModel
+      .find({ $or: [{ whitePlayerId: userId }, { blackPlayerId: userId }, { ownerId: userId }] })
+      .sort({ createdAt: 1 })
+      .cursor();
+
+    try {
+      for (let game = await cursor.next(); game; game = await cursor.next()) {
+        const gameObj = game.toObject();
+        yield {
+          ...gameObj,
+          _id: gameObj._id.toString(),
+        } as unknown as Game;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
   // Game move operations
   async addGameMove(move: InsertGameMove): Promise<GameMove> {
     const newMove = new GameMoveModel(move);
@@ -233,6 +670,116 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async *iterateGameMoves(gameId: string): AsyncGenerator<GameMove> {
+    const cursor = GameMoveModel
+      .find({ gameId })
+      .sort({ moveNumber: 1 })
+      .cursor();
+
+    try {
+      for (let move = await cursor.next(); move; move = await cursor.next()) {
+        const moveObj = move.toObject();
+        yield {
+          ...moveObj,
+          _id: moveObj._id.toString(),
+          gameId: moveObj.gameId.toString(),
+        } as unknown as GameMove;
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  // Opening explorer. The game is marked as indexed before its moves are
+  // counted, so indexing the same game twice only counts it once, and unmarked
+  // again if counting fails so the backfill retries it. Returns false if it
+  // had already been counted.
+  async addGameToExplorer(gameId: string, entry: InsertExplorerGame): Promise<boolean> {
+    const claimed = await GameModel
+      .updateOne({ _id: gameId, explorerIndexed: { $ne: true } }, { explorerIndexed: true })
+      .exec();
+    if (claimed.modifiedCount === 0) return false;
+    if (entry.moves.length === 0) return true;
+
+    const increment = {
+      games: 1,
+      whiteWins: entry.result === 'white_wins' ? 1 : 0,
+      draws: entry.result === 'draw' ? 1 : 0,
+      blackWins: entry.result === 'black_wins' ? 1 : 0,
+      ...(entry.averageRating !== undefined && { ratingTotal: entry.averageRating, ratedGames: 1 }),
+    };
+    const scopes = [null, ...entry.playerIds];
+
+    let pending = entry.moves.flatMap(({ positionKey, move }) => scopes.map(playerId => ({
+      updateOne: {
+        filter: { positionKey, move, playerId },
+        update: { $inc: increment },
+        upsert: true,
+      },
+    })));
+
+    try {
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        try {
+          await ExplorerStatModel.bulkWrite(pending, { ordered: false });
+          pending = [];
+        } catch (error) {
+          // Two games adding the same new row at once: the losing upsert hits
+          // the unique index and only needs running again, as an update
+          const failures = getBulkWriteFailures(error);
+          if (attempt >= 3 || failures.length === 0 || failures.some(failure => failure.code !== 11000)) {
+            throw error;
+          }
+          pending = failures.map(failure => pending[failure.index]);
+        }
+      }
+    } catch (error) {
+      await GameModel.updateOne({ _id: gameId }, { explorerIndexed: false }).exec();
+      throw error;
+    }
+    return true;
+  }
+
+  // For finished games with nothing to add, so they aren't looked at again
+  async markExplorerIndexed(gameId: string): Promise<void> {
+    await GameModel.updateOne({ _id: gameId }, { explorerIndexed: true }).exec();
+  }
+
+  // Finished games played here (not imported) whose moves aren't in the explorer yet
+  async getGamesMissingFromExplorer(limit: number): Promise<Game[]> {
+    const games = await GameModel
+      .find({ status: 'completed', imported: { $ne: true }, explorerIndexed: { $ne: true } })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  // Every move played from a position, most played first. With a player only
+  // their own games count.
+  async getExplorerMoveStats(positionKey: string, playerId?: string): Promise<ExplorerMoveStats[]> {
+    const stats = await ExplorerStatModel
+      .find({ positionKey, playerId: playerId ?? null })
+      .sort({ games: -1, move: 1 })
+      .exec();
+
+    return stats.map(stat => ({
+      move: stat.move,
+      games: stat.games,
+      whiteWins: stat.whiteWins,
+      draws: stat.draws,
+      blackWins: stat.blackWins,
+      averageRating: stat.ratedGames > 0 ? Math.round(stat.ratingTotal / stat.ratedGames) : undefined,
+    }));
+  }
+
   // Chat operations
   async addChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const newMessage = new ChatMessageModel(message);
@@ -245,9 +792,9 @@ export class DatabaseStorage implements IStorage {
     } as ChatMessage;
   }
 
-  async getChatMessages(gameId: string): Promise<(ChatMessage & { player: User })[]> {
+  async getChatMessages(gameId: string, channel: ChatChannel = 'players'): Promise<(ChatMessage & { player: User })[]> {
     const messages = await ChatMessageModel
-      .find({ gameId })
+      .find({ gameId, channel: channel === 'players' ? { $ne: 'spectators' } : channel })
       .sort({ createdAt: 1 })
       .exec();
 
@@ -278,7 +825,11 @@ export class DatabaseStorage implements IStorage {
 
   // Matchmaking operations
   async addToMatchmaking(entry: InsertMatchmakingEntry): Promise<MatchmakingEntry> {
-    const newEntry = new MatchmakingQueueModel(entry);
+    const category = getRatingCategory(entry.timeControl, entry.timeIncrement, entry.timeDelay);
+    const newEntry = new MatchmakingQueueModel({
+      ...entry,
+      rating: await getAverageRating([entry.playerId], category),
+    });
     await newEntry.save();
     const entryObj = newEntry.toObject();
     return {
@@ -289,17 +840,23 @@ export class DatabaseStorage implements IStorage {
 
   async findMatchmakingOpponent(
     playerId: string,
-    timeControl: number,
+    timeControl: TimeControl,
     ratingRange: number
   ): Promise<MatchmakingEntry | undefined> {
-    const currentUser = await this.getUser(playerId);
-    if (!currentUser) return undefined;
+    const category = getRatingCategory(timeControl.timeControl, timeControl.timeIncrement, timeControl.timeDelay);
+    const rating = await getAverageRating([playerId], category);
+    if (rating === undefined) return undefined;
 
-    // Find any available opponent with same time control
+    // The longest waiting opponent with exactly the same base, increment and
+    // delay whose rating is within our range, and ours within theirs
     const opponent = await MatchmakingQueueModel
       .findOne({
         playerId: { $ne: playerId },
-        timeControl,
+        timeControl: timeControl.timeControl,
+        timeIncrement: timeControl.timeIncrement,
+        timeDelay: timeControl.timeDelay,
+        rating: { $gte: rating - ratingRange, $lte: rating + ratingRange },
+        $expr: { $lte: [{ $abs: { $subtract: ['$rating', rating] } }, '$ratingRange'] },
       })
       .sort({ createdAt: 1 }) // First in queue gets matched first
       .exec();
@@ -322,8 +879,9 @@ export class DatabaseStorage implements IStorage {
     return !!entry;
   }
 
-  // User stats
-  async updateUserStats(userId: string, result: 'win' | 'loss' | 'draw'): Promise<void> {
+  // User stats. The new rating is calculated by the caller (see rating.ts);
+  // without one only the game counters change.
+  async updateUserStats(userId: string, result: 'win' | 'loss' | 'draw', rating?: RatingUpdate): Promise<void> {
     const user = await this.getUser(userId);
     if (!user) return;
 
@@ -332,27 +890,190 @@ export class DatabaseStorage implements IStorage {
       updatedAt: new Date(),
     };
 
+    if (rating) {
+      const pool = `ratings.${rating.category}`;
+      Object.assign(updates, rating.overall, {
+        [`${pool}.rating`]: rating.pool.rating,
+        [`${pool}.ratingDeviation`]: rating.pool.ratingDeviation,
+        [`${pool}.ratingVolatility`]: rating.pool.ratingVolatility,
+        $inc: { [`${pool}.gamesPlayed`]: 1 },
+      });
+    }
+
     if (result === 'win') {
       updates.wins = user.wins + 1;
-      updates.rating = user.rating + 25;
     } else if (result === 'loss') {
       updates.losses = user.losses + 1;
-      updates.rating = Math.max(800, user.rating - 25);
     } else {
       updates.draws = user.draws + 1;
-      updates.rating = user.rating + 5;
     }
 
     await UserModel.updateOne({ id: userId }, updates).exec();
   }
 
   // Leaderboard
-  async getLeaderboard(limit: number = 50): Promise<User[]> {
+  // Rating history
+  async addRatingHistory(entry: InsertRatingHistoryEntry): Promise<RatingHistoryEntry> {
+    const newEntry = new RatingHistoryModel(entry);
+    await newEntry.save();
+    const entryObj = newEntry.toObject();
+    return {
+      ...entryObj,
+      _id: entryObj._id.toString(),
+      gameId: entryObj.gameId.toString(),
+    } as unknown as RatingHistoryEntry;
+  }
+
+  async getRatingHistory(userId: string, from?: Date, to?: Date): Promise<RatingHistoryEntry[]> {
+    const query: FilterQuery<RatingHistoryEntry> = { userId };
+    if (from || to) {
+      query.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    const entries = await RatingHistoryModel
+      .find(query)
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return entries.map(entry => {
+      const entryObj = entry.toObject();
+      return {
+        ...entryObj,
+        _id: entryObj._id.toString(),
+        gameId: entryObj.gameId.toString(),
+      } as unknown as RatingHistoryEntry;
+    });
+  }
+
+  // Bot profiles
+  async getBotProfiles(): Promise<(BotProfile & { user: User })[]> {
+    const profiles = await BotProfileModel
+      .find()
+      .sort({ targetElo: 1 })
+      .exec();
+
+    const profilesWithUsers = [];
+    for (const profile of profiles) {
+      const user = await this.getUser(profile.userId);
+      if (user) {
+        const profileObj = profile.toObject();
+        profilesWithUsers.push({
+          ...profileObj,
+          _id: profileObj._id.toString(),
+          user,
+        } as unknown as BotProfile & { user: User });
+      }
+    }
+
+    return profilesWithUsers;
+  }
+
+  async getBotProfile(userId: string): Promise<BotProfile | undefined> {
+    const profile = await BotProfileModel.findOne({ userId }).exec();
+    if (!profile) return undefined;
+    const profileObj = profile.toObject();
+    return {
+      ...profileObj,
+      _id: profileObj._id.toString(),
+    } as unknown as BotProfile;
+  }
+
+  // Profiles already in the database are left alone so they can be tuned there
+  async createBotProfileIfMissing(profile: InsertBotProfile, profileImageUrl: string): Promise<void> {
+    await UserModel.updateOne(
+      { id: profile.userId },
+      {
+        $setOnInsert: {
+          id: profile.userId,
+          firstName: profile.name,
+          profileImageUrl,
+          isBot: true,
+          rating: profile.targetElo,
+        },
+      },
+      { upsert: true }
+    ).exec();
+
+    await BotProfileModel.updateOne(
+      { userId: profile.userId },
+      { $setOnInsert: profile },
+      { upsert: true }
+    ).exec();
+  }
+
+  async getGameAnalysis(gameId: string): Promise<GameAnalysis | undefined> {
+    const analysis = await GameAnalysisModel.findOne({ gameId }).exec();
+    if (!analysis) return undefined;
+    const analysisObj = analysis.toObject();
+    return {
+      ...analysisObj,
+      _id: analysisObj._id.toString(),
+      gameId: analysisObj.gameId.toString(),
+    } as unknown as GameAnalysis;
+  }
+
+  // Start over from nothing, whether or not the game was analysed before
+  async resetGameAnalysis(gameId: string): Promise<GameAnalysis> {
+    const analysis = await GameAnalysisModel.findOneAndUpdate(
+      { gameId },
+      {
+        $set: { status: 'pending', progress: 0, moves: [], createdAt: new Date() },
+        $unset: {
+          engine: 1,
+          initialEvaluation: 1,
+          whiteAverageLoss: 1,
+          blackAverageLoss: 1,
+          error: 1,
+          completedAt: 1,
+        },
+      },
+      { upsert: true, new: true }
+    ).exec();
+
+    const analysisObj = analysis.toObject();
+    return {
+      ...analysisObj,
+      _id: analysisObj._id.toString(),
+      gameId: analysisObj.gameId.toString(),
+    } as unknown as GameAnalysis;
+  }
+
+  async updateGameAnalysis(gameId: string, updates: GameAnalysisUpdate): Promise<GameAnalysis | undefined> {
+    const analysis = await GameAnalysisModel.findOneAndUpdate({ gameId }, updates, { new: true }).exec();
+    if (!analysis) return undefined;
+    const analysisObj = analysis.toObject();
+    return {
+      ...analysisObj,
+      _id: analysisObj._id.toString(),
+      gameId: analysisObj.gameId.toString(),
+    } as unknown as GameAnalysis;
+  }
+
+  async getUnfinishedAnalyses(): Promise<GameAnalysis[]> {
+    const analyses = await GameAnalysisModel
+      .find({ status: { $in: ['pending', 'running'] } })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return analyses.map(analysis => {
+      const analysisObj = analysis.toObject();
+      return {
+        ...analysisObj,
+        _id: analysisObj._id.toString(),
+        gameId: analysisObj.gameId.toString(),
+      } as unknown as GameAnalysis;
+    });
+  }
+
+  // Without a category players are ranked by their overall rating
+  async getLeaderboard(limit: number = 50, category?: RatingCategory): Promise<User[]> {
+    const prefix = category ? `ratings.${category}.` : '';
     const users = await UserModel
       .find({
-        gamesPlayed: { $gt: 0 }, // Only include users who have played at least one game
+        [`${prefix}gamesPlayed`]: { $gt: 0 }, // Only include users who have played at least one game
+        isBot: { $ne: true },
       })
-      .sort({ rating: -1, gamesPlayed: -1 }) // Sort by rating desc, then by games played desc
+      .sort({ [`${prefix}rating`]: -1, [`${prefix}gamesPlayed`]: -1 }) // Sort by rating desc, then by games played desc
       .limit(limit)
       .exec();
 
@@ -394,6 +1115,228 @@ export class DatabaseStorage implements IStorage {
     } as User;
   }
 
+  // Friends
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    const users = await UserModel.find({ id: { $in: ids } }).exec();
+
+    return users.map(user => {
+      const userObj = user.toObject();
+      return {
+        ...userObj,
+        _id: userObj._id.toString(),
+        email: userObj.email || undefined,
+        firstName: userObj.firstName || undefined,
+        lastName: userObj.lastName || undefined,
+        profileImageUrl: userObj.profileImageUrl || undefined,
+      } as unknown as User;
+    });
+  }
+
+  // Registered players whose first or last name matches every word of the
+  // query; bots and guests can't be befriended, so they aren't listed
+  async searchUsers(query: string, excludeUserId: string, limit = 10): Promise<User[]> {
+    const words = query.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    const users = await UserModel
+      .find({
+        $and: [
+          { id: { $ne: excludeUserId, $not: /^guest_/ } },
+          ...words.map(word => {
+            const pattern = new RegExp(`^${escapeRegex(word)}`, 'i');
+            return { $or: [{ firstName: pattern }, { lastName: pattern }] };
+          }),
+        ],
+        isBot: { $ne: true },
+      })
+      .sort({ firstName: 1, lastName: 1 })
+      .limit(limit)
+      .exec();
+
+    return users.map(user => {
+      const userObj = user.toObject();
+      return {
+        ...userObj,
+        _id: userObj._id.toString(),
+        email: userObj.email || undefined,
+        firstName: userObj.firstName || undefined,
+        lastName: userObj.lastName || undefined,
+        profileImageUrl: userObj.profileImageUrl || undefined,
+      } as unknown as User;
+    });
+  }
+
+  // The friendship or pending request between two users, whoever asked
+  async getFriendship(userId: string, otherUserId: string): Promise<Friendship | undefined> {
+    const friendship = await FriendshipModel.findOne({
+      $or: [
+        { requesterId: userId, addresseeId: otherUserId },
+        { requesterId: otherUserId, addresseeId: userId },
+      ],
+    }).exec();
+    if (!friendship) return undefined;
+
+    const friendshipObj = friendship.toObject();
+    return {
+      ...friendshipObj,
+      _id: friendshipObj._id.toString(),
+    } as unknown as Friendship;
+  }
+
+  async getFriendshipById(id: string): Promise<Friendship | undefined> {
+    const friendship = await FriendshipModel.findById(id).exec();
+    if (!friendship) return undefined;
+
+    const friendshipObj = friendship.toObject();
+    return {
+      ...friendshipObj,
+      _id: friendshipObj._id.toString(),
+    } as unknown as Friendship;
+  }
+
+  async createFriendRequest(request: InsertFriendship): Promise<Friendship> {
+    const friendship = new FriendshipModel({ ...request, status: 'pending' });
+    await friendship.save();
+
+    const friendshipObj = friendship.toObject();
+    return {
+      ...friendshipObj,
+      _id: friendshipObj._id.toString(),
+    } as unknown as Friendship;
+  }
+
+  // Only a pending request can be accepted, so answering twice is harmless
+  async acceptFriendRequest(id: string): Promise<Friendship | undefined> {
+    const friendship = await FriendshipModel.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { status: 'accepted', acceptedAt: new Date() },
+      { new: true }
+    ).exec();
+    if (!friendship) return undefined;
+
+    const friendshipObj = friendship.toObject();
+    return {
+      ...friendshipObj,
+      _id: friendshipObj._id.toString(),
+    } as unknown as Friendship;
+  }
+
+  async deleteFriendship(id: string): Promise<void> {
+    await FriendshipModel.findByIdAndDelete(id).exec();
+  }
+
+  async getFriendships(userId: string, status: Friendship['status']): Promise<Friendship[]> {
+    const friendships = await FriendshipModel
+      .find({ $or: [{ requesterId: userId }, { addresseeId: userId }], status })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return friendships.map(friendship => {
+      const friendshipObj = friendship.toObject();
+      return {
+        ...friendshipObj,
+        _id: friendshipObj._id.toString(),
+      } as unknown as Friendship;
+    });
+  }
+
+  async getFriendIds(userId: string): Promise<string[]> {
+    const friendships = await this.getFriendships(userId, 'accepted');
+    return friendships.map(friendship =>
+      friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId
+    );
+  }
+
+  async getActiveGamesForPlayers(playerIds: string[]): Promise<Game[]> {
+    if (playerIds.length === 0) return [];
+    const games = await GameModel
+      .find({
+        status: 'active',
+        $or: [{ whitePlayerId: { $in: playerIds } }, { blackPlayerId: { $in: playerIds } }],
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return games.map(game => {
+      const gameObj = game.toObject();
+      return {
+        ...gameObj,
+        _id: gameObj._id.toString(),
+      } as unknown as Game;
+    });
+  }
+
+  // Challenge methods
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const newChallenge = new ChallengeModel({ ...challenge, status: 'pending' });
+    await newChallenge.save();
+    return toChallenge(newChallenge);
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    const challenge = await ChallengeModel.findById(id).exec();
+    return challenge ? toChallenge(challenge) : undefined;
+  }
+
+  async getChallengeByCode(code: string): Promise<Challenge | undefined> {
+    const challenge = await ChallengeModel.findOne({ code }).exec();
+    return challenge ? toChallenge(challenge) : undefined;
+  }
+
+  // Unexpired pending challenges the user sent or received, newest first
+  async getPendingChallenges(userId: string): Promise<Challenge[]> {
+    const challenges = await ChallengeModel
+      .find({
+        status: 'pending',
+        expiresAt: { $gt: new Date() },
+        $or: [{ challengerId: userId }, { targetUserId: userId }],
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+    return challenges.map(toChallenge);
+  }
+
+  async findPendingChallenge(challengerId: string, targetUserId: string): Promise<Challenge | undefined> {
+    const challenge = await ChallengeModel
+      .findOne({ challengerId, targetUserId, status: 'pending', expiresAt: { $gt: new Date() } })
+      .exec();
+    return challenge ? toChallenge(challenge) : undefined;
+  }
+
+  // Only answers challenges that are still pending and unexpired, so two
+  // players accepting the same join link can't both get a game
+  async respondToChallenge(
+    id: string,
+    status: Exclude<ChallengeStatus, 'pending' | 'expired'>
+  ): Promise<Challenge | undefined> {
+    const challenge = await ChallengeModel
+      .findOneAndUpdate(
+        { _id: id, status: 'pending', expiresAt: { $gt: new Date() } },
+        { status, respondedAt: new Date() },
+        { new: true }
+      )
+      .exec();
+    return challenge ? toChallenge(challenge) : undefined;
+  }
+
+  async setChallengeGame(id: string, gameId: string): Promise<void> {
+    await ChallengeModel.updateOne({ _id: id }, { gameId }).exec();
+  }
+
+  // Marks pending challenges past their expiry as expired and returns them
+  async expireChallenges(): Promise<Challenge[]> {
+    const now = new Date();
+    const challenges = await ChallengeModel.find({ status: 'pending', expiresAt: { $lte: now } }).exec();
+    if (challenges.length === 0) return [];
+
+    await ChallengeModel.updateMany(
+      { _id: { $in: challenges.map(challenge => challenge._id) }, status: 'pending' },
+      { status: 'expired', respondedAt: now }
+    ).exec();
+    return challenges.map(challenge => ({ ...toChallenge(challenge), status: 'expired' }) as Challenge);
+  }
+
   // Draw offer methods
   async addDrawOffer(gameId: string, playerId: string): Promise<void> {
     try {
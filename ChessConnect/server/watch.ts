@@ -0,0 +1,26 @@
+import type { LiveGame, LiveGamesQuery, WatchList } from "@shared/schema";
+import { storage } from "./storage";
+import { withLiveClock } from "./clock";
+
+// The highest rated game that is under way; a game still waiting for its first
+// move only gets featured when nothing else is on
+function pickFeatured(games: LiveGame[]): LiveGame | null {
+  return games.find((game) => game.moveCount > 0) ?? games[0] ?? null;
+}
+
+// Live public games for the watch page, highest average rating first, with
+// clocks as of now and both players attached
+export async function getWatchList(query: LiveGamesQuery): Promise<WatchList> {
+  const games = await storage.getLiveGames(query);
+  const playerIds = Array.from(new Set(games.flatMap((game) => [game.whitePlayerId!, game.blackPlayerId!])));
+  const users = await storage.getUsersByIds(playerIds);
+
+  const now = new Date();
+  const liveGames: LiveGame[] = games.map((game) => ({
+    ...withLiveClock(game, now),
+    whitePlayer: users.find((user) => user.id === game.whitePlayerId) ?? null,
+    blackPlayer: users.find((user) => user.id === game.blackPlayerId) ?? null,
+  }));
+
+  return { featured: pickFeatured(liveGames), games: liveGames };
+}
@@ -0,0 +1,15 @@
+import { Worker } from "worker_threads";
+
+// Start the worker entry point `name` (e.g. "botWorker"), which sits next to
+// this module: name.ts in development, where it needs tsx loaded to run, and
+// name.js in the esbuild output.
+export function createModuleWorker(name: string): Worker {
+  if (import.meta.url.endsWith(".ts")) {
+    const workerUrl = new URL(`./${name}.ts`, import.meta.url).href;
+    return new Worker(
+      `import("tsx/esm/api").then(({ tsImport }) => tsImport(${JSON.stringify(workerUrl)}, ${JSON.stringify(import.meta.url)}))`,
+      { eval: true }
+    );
+  }
+  return new Worker(new URL(`./${name}.js`, import.meta.url));
+}
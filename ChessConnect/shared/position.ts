@@ -0,0 +1,53 @@
+import { Chess, validateFen } from "chess.js";
+
+// Games start from the standard position unless created from a FEN (stored
+// as the game's startFen), so move numbers and the side making each move are
+// worked out from the starting position rather than assumed.
+
+export const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+export function getStartFen(game: { startFen?: string }): string {
+  return game.startFen || START_FEN;
+}
+
+export function getSideToMove(fen: string): "white" | "black" {
+  return fen.split(" ")[1] === "b" ? "black" : "white";
+}
+
+// Half-moves played before `fen` if the game had begun from the standard
+// position, taken from the FEN's full-move number and side to move
+function getPlyOffset(fen: string): number {
+  const fullMoveNumber = parseInt(fen.split(" ")[5], 10) || 1;
+  return (fullMoveNumber - 1) * 2 + (getSideToMove(fen) === "black" ? 1 : 0);
+}
+
+// Whether the game's `ply`th move (counting from 1) was made by white
+export function isWhitePly(startFen: string, ply: number): boolean {
+  return (getPlyOffset(startFen) + ply - 1) % 2 === 0;
+}
+
+// Full-move number of the game's `ply`th move
+export function getMoveNumber(startFen: string, ply: number): number {
+  return Math.floor((getPlyOffset(startFen) + ply - 1) / 2) + 1;
+}
+
+// "12." before a white move, "12..." before a black one
+export function formatMoveNumber(startFen: string, ply: number): string {
+  return `${getMoveNumber(startFen, ply)}${isWhitePly(startFen, ply) ? "." : "..."}`;
+}
+
+// Why a FEN can't start a game, or undefined if it can. On top of chess.js's
+// checks, the side that just moved can't be left in check and the side to
+// move must have a move to make.
+export function getStartFenError(fen: string): string | undefined {
+  const validation = validateFen(fen);
+  if (!validation.ok) return validation.error;
+
+  const fields = fen.split(" ");
+  const passed = [fields[0], fields[1] === "w" ? "b" : "w", fields[2], "-", ...fields.slice(4)].join(" ");
+  if (new Chess(passed).inCheck()) return "The side not to move is in check";
+
+  const chess = new Chess(fen);
+  if (chess.isGameOver()) return "The game is already over in this position";
+  return undefined;
+}
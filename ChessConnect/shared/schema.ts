@@ -1,8 +1,17 @@
 import { Schema, model, Document } from "mongoose";
 import { z } from "zod";
+import { MAX_BASE_TIME, MAX_BONUS_TIME, RATING_CATEGORIES, type RatingCategory } from "./timeControl";
 
 // Mongoose Schema Definitions
 
+// One Glicko-2 rating per time-control category
+const ratingPoolSchema = new Schema({
+  rating: { type: Number, default: 1200 },
+  ratingDeviation: { type: Number, default: 350 },
+  ratingVolatility: { type: Number, default: 0.06 },
+  gamesPlayed: { type: Number, default: 0 },
+}, { _id: false });
+
 // User Schema
 const userSchema = new Schema({
   id: { type: String, required: true, unique: true },
@@ -10,7 +19,16 @@ const userSchema = new Schema({
   firstName: { type: String },
   lastName: { type: String },
   profileImageUrl: { type: String },
+  isBot: { type: Boolean, default: false }, // computer player, see botProfiles
   rating: { type: Number, default: 1200 },
+  ratingDeviation: { type: Number, default: 350 }, // Glicko-2 RD
+  ratingVolatility: { type: Number, default: 0.06 }, // Glicko-2 sigma
+  ratings: { // per time-control pools; rating above is across all games
+    bullet: { type: ratingPoolSchema, default: () => ({}) },
+    blitz: { type: ratingPoolSchema, default: () => ({}) },
+    rapid: { type: ratingPoolSchema, default: () => ({}) },
+    classical: { type: ratingPoolSchema, default: () => ({}) },
+  },
   gamesPlayed: { type: Number, default: 0 },
   wins: { type: Number, default: 0 },
   losses: { type: Number, default: 0 },
@@ -25,17 +43,54 @@ const gameSchema = new Schema({
   blackPlayerId: { type: String, ref: 'User' },
   status: { type: String, default: "active" }, // active, completed, resigned, draw
   result: { type: String }, // white_wins, black_wins, draw
-  timeControl: { type: Number, default: 600 }, // seconds
-  whiteTimeRemaining: { type: Number },
-  blackTimeRemaining: { type: Number },
+  termination: { type: String }, // checkmate, resignation, timeout, stalemate, draw_agreement, ...
+  timeControl: { type: Number, default: 600 }, // base time, seconds
+  timeIncrement: { type: Number, default: 0 }, // Fischer increment per move, seconds
+  timeDelay: { type: Number, default: 0 }, // Bronstein delay per move, seconds
+  ratingCategory: { type: String, enum: RATING_CATEGORIES }, // bullet, blitz, rapid, classical
+  whiteTimeRemaining: { type: Number }, // seconds, as of lastMoveAt
+  blackTimeRemaining: { type: Number }, // seconds, as of lastMoveAt
+  lastMoveAt: { type: Date }, // when the side to move's clock started running
+  whiteRating: { type: Number }, // ratingCategory pool ratings going into the game, set when it ends
+  blackRating: { type: Number },
+  whiteRatingChange: { type: Number },
+  blackRatingChange: { type: Number },
+  averageRating: { type: Number }, // mean of both players' ratingCategory ratings at the start, for the watch list
   currentTurn: { type: String, default: "white" }, // white, black
   moveCount: { type: Number, default: 0 },
   pgn: { type: String, default: "" },
   fen: { type: String, default: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1" },
+  startFen: { type: String }, // position the game was set up from; unset for the standard start
+  imported: { type: Boolean, default: false }, // uploaded as PGN, never rated
+  ownerId: { type: String, ref: 'User' }, // who imported it
+  whitePlayerName: { type: String }, // player names from the PGN headers of imported games
+  blackPlayerName: { type: String },
+  event: { type: String },
+  eco: { type: String }, // ECO code of the opening, updated as moves are played
+  openingName: { type: String },
+  explorerIndexed: { type: Boolean, default: false }, // moves have been counted in explorerStats
+  rated: { type: Boolean }, // false for casual games between players; unset counts as rated
+  private: { type: Boolean, default: false }, // no spectators while it is being played
+  rematchOf: { type: Schema.Types.ObjectId, ref: 'Game' }, // the game this is a rematch of
+  seriesId: { type: Schema.Types.ObjectId, ref: 'Game' }, // first game of the rematch chain
+  rematchOfferedBy: { type: String, ref: 'User' }, // after the game, until answered
+  rematchGameId: { type: Schema.Types.ObjectId, ref: 'Game' }, // the rematch, once accepted
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now },
 });
 
+gameSchema.index({ ownerId: 1, createdAt: -1 });
+// A player's games by date or length, one index per side since queries
+// match on either (see searchUserGames)
+gameSchema.index({ whitePlayerId: 1, createdAt: -1 });
+gameSchema.index({ blackPlayerId: 1, createdAt: -1 });
+gameSchema.index({ whitePlayerId: 1, moveCount: -1 });
+gameSchema.index({ blackPlayerId: 1, moveCount: -1 });
+gameSchema.index({ seriesId: 1, createdAt: 1 }, { sparse: true });
+// Live games by rating, overall or per time control (see getLiveGames)
+gameSchema.index({ status: 1, averageRating: -1 });
+gameSchema.index({ status: 1, ratingCategory: 1, averageRating: -1 });
+
 // Game Move Schema
 const gameMoveSchema = new Schema({
   gameId: { type: Schema.Types.ObjectId, ref: 'Game', required: true },
@@ -46,22 +101,137 @@ const gameMoveSchema = new Schema({
   createdAt: { type: Date, default: Date.now },
 });
 
+gameMoveSchema.index({ gameId: 1, moveNumber: 1 });
+
+// Explorer Stats Schema: running totals for each move played from a position,
+// once across all games (no playerId) and once per player for their own view.
+// Finished games are added with $inc, so reading a position costs the same
+// however many games have been played.
+const explorerStatSchema = new Schema({
+  positionKey: { type: String, required: true }, // FEN without the move counters
+  move: { type: String, required: true }, // SAN
+  playerId: { type: String, ref: 'User', default: null },
+  games: { type: Number, default: 0 },
+  whiteWins: { type: Number, default: 0 },
+  draws: { type: Number, default: 0 },
+  blackWins: { type: Number, default: 0 },
+  ratingTotal: { type: Number, default: 0 }, // sum of the games' average ratings
+  ratedGames: { type: Number, default: 0 }, // games with an average rating
+});
+
+explorerStatSchema.index({ positionKey: 1, playerId: 1, move: 1 }, { unique: true });
+
 // Chat Message Schema
 const chatMessageSchema = new Schema({
   gameId: { type: Schema.Types.ObjectId, ref: 'Game', required: true },
   playerId: { type: String, ref: 'User', required: true },
   message: { type: String, required: true },
+  // Spectators talk among themselves; the players only see that chat once
+  // the game is over. Messages from before spectating count as 'players'.
+  channel: { type: String, enum: ['players', 'spectators'], default: 'players' },
   createdAt: { type: Date, default: Date.now },
 });
 
+chatMessageSchema.index({ gameId: 1, createdAt: 1 });
+
 // Matchmaking Queue Schema
 const matchmakingQueueSchema = new Schema({
   playerId: { type: String, ref: 'User', required: true },
   timeControl: { type: Number, default: 600 },
+  timeIncrement: { type: Number, default: 0 },
+  timeDelay: { type: Number, default: 0 },
   ratingRange: { type: Number, default: 200 },
+  rating: { type: Number }, // the player's rating for this time control when they joined
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Rating History Schema: one point per player per rated game
+const ratingHistorySchema = new Schema({
+  userId: { type: String, ref: 'User', required: true },
+  gameId: { type: Schema.Types.ObjectId, ref: 'Game', required: true },
+  opponentId: { type: String, ref: 'User', required: true },
+  category: { type: String, enum: ['bullet', 'blitz', 'rapid', 'classical'], required: true },
+  rating: { type: Number, required: true }, // time-control rating after the game
+  ratingChange: { type: Number, required: true },
+  overallRating: { type: Number, required: true },
+  overallRatingChange: { type: Number, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+ratingHistorySchema.index({ userId: 1, createdAt: 1 });
+
+// Bot Profile Schema: the personality behind a bot's User record
+const botProfileSchema = new Schema({
+  userId: { type: String, ref: 'User', required: true, unique: true },
+  name: { type: String, required: true },
+  description: { type: String },
+  targetElo: { type: Number, required: true },
+  openingRepertoire: { type: [String], default: [] }, // lines of SAN moves from the start, e.g. "e4 e5 Nf3"
+  blunderRate: { type: Number, default: 0, min: 0, max: 1 }, // chance of a random move instead of the engine's
+  style: { type: String, enum: ['aggressive', 'positional', 'defensive', 'balanced'], default: 'balanced' },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// Game Analysis Schema: engine evaluation of every position of a finished game
+const analyzedMoveSchema = new Schema({
+  ply: { type: Number, required: true },
+  move: { type: String, required: true }, // SAN of the move played
+  evaluation: { type: Number }, // centipawns from white's side after the move; mates are +/-10000
+  bestMove: { type: String }, // engine's choice in the position before the move
+  classification: { type: String, enum: ['inaccuracy', 'mistake', 'blunder'] },
+}, { _id: false });
+
+const gameAnalysisSchema = new Schema({
+  gameId: { type: Schema.Types.ObjectId, ref: 'Game', required: true, unique: true },
+  status: { type: String, enum: ['pending', 'running', 'completed', 'failed'], default: 'pending' },
+  engine: { type: String },
+  progress: { type: Number, default: 0 }, // share of positions evaluated, 0-1
+  initialEvaluation: { type: Number }, // centipawns, before the first move
+  moves: { type: [analyzedMoveSchema], default: [] },
+  whiteAverageLoss: { type: Number }, // average centipawn loss per move
+  blackAverageLoss: { type: Number },
+  error: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  completedAt: { type: Date },
+});
+
+// Friendship Schema: a friend request, which becomes the friendship once the
+// addressee accepts. Declined requests and removed friends are deleted.
+const friendshipSchema = new Schema({
+  requesterId: { type: String, ref: 'User', required: true },
+  addresseeId: { type: String, ref: 'User', required: true },
+  status: { type: String, enum: ['pending', 'accepted'], default: 'pending' },
+  createdAt: { type: Date, default: Date.now },
+  acceptedAt: { type: Date },
+});
+
+friendshipSchema.index({ requesterId: 1, addresseeId: 1 }, { unique: true });
+friendshipSchema.index({ addresseeId: 1, status: 1 });
+
+// Challenge Schema: an invitation to a game, sent to one user or, without a
+// target, to whoever opens its join link. Accepting it creates the game.
+const challengeSchema = new Schema({
+  challengerId: { type: String, ref: 'User', required: true },
+  targetUserId: { type: String, ref: 'User' }, // unset for join-link challenges
+  code: { type: String }, // join code of challenges without a target, as in /join/:code
+  timeControl: { type: Number, default: 600 },
+  timeIncrement: { type: Number, default: 0 },
+  timeDelay: { type: Number, default: 0 },
+  color: { type: String, enum: ['white', 'black', 'random'], default: 'random' }, // the challenger's side
+  rated: { type: Boolean, default: true },
+  startFen: { type: String }, // position the game starts from; unset for the standard start
+  status: { type: String, enum: ['pending', 'accepted', 'declined', 'cancelled', 'expired'], default: 'pending' },
+  gameId: { type: Schema.Types.ObjectId, ref: 'Game' }, // once accepted
+  expiresAt: { type: Date, required: true },
   createdAt: { type: Date, default: Date.now },
+  respondedAt: { type: Date },
 });
 
+challengeSchema.index({ code: 1 }, { unique: true, sparse: true });
+challengeSchema.index({ targetUserId: 1, status: 1 });
+challengeSchema.index({ challengerId: 1, status: 1 });
+challengeSchema.index({ status: 1, expiresAt: 1 });
+
 // Session Schema (for Replit Auth)
 const sessionSchema = new Schema({
   sid: { type: String, required: true, unique: true },
@@ -73,18 +243,35 @@ const sessionSchema = new Schema({
 export const UserModel = model('User', userSchema);
 export const GameModel = model('Game', gameSchema);
 export const GameMoveModel = model('GameMove', gameMoveSchema);
+export const ExplorerStatModel = model('ExplorerStat', explorerStatSchema);
 export const ChatMessageModel = model('ChatMessage', chatMessageSchema);
 export const MatchmakingQueueModel = model('MatchmakingQueue', matchmakingQueueSchema);
+export const RatingHistoryModel = model('RatingHistory', ratingHistorySchema);
+export const BotProfileModel = model('BotProfile', botProfileSchema);
+export const GameAnalysisModel = model('GameAnalysis', gameAnalysisSchema);
+export const FriendshipModel = model('Friendship', friendshipSchema);
+export const ChallengeModel = model('Challenge', challengeSchema);
 export const SessionModel = model('Session', sessionSchema);
 
 // TypeScript Interfaces
+export interface RatingPool {
+  rating: number;
+  ratingDeviation: number;
+  ratingVolatility: number;
+  gamesPlayed: number;
+}
+
 export interface User extends Document {
   id: string;
   email?: string;
   firstName?: string;
   lastName?: string;
   profileImageUrl?: string;
+  isBot?: boolean;
   rating: number;
+  ratingDeviation: number;
+  ratingVolatility: number;
+  ratings?: Partial<Record<RatingCategory, RatingPool>>;
   gamesPlayed: number;
   wins: number;
   losses: number;
@@ -99,17 +286,50 @@ export interface Game extends Document {
   blackPlayerId?: string;
   status: string;
   result?: string;
+  termination?: string;
   timeControl: number;
+  timeIncrement: number;
+  timeDelay: number;
+  ratingCategory?: RatingCategory;
   whiteTimeRemaining?: number;
   blackTimeRemaining?: number;
+  lastMoveAt?: Date;
+  whiteRating?: number;
+  blackRating?: number;
+  whiteRatingChange?: number;
+  blackRatingChange?: number;
+  averageRating?: number;
   currentTurn: string;
   moveCount: number;
   pgn: string;
   fen: string;
+  startFen?: string;
+  imported?: boolean;
+  ownerId?: string;
+  whitePlayerName?: string;
+  blackPlayerName?: string;
+  event?: string;
+  eco?: string;
+  openingName?: string;
+  explorerIndexed?: boolean;
+  rated?: boolean;
+  private?: boolean;
+  rematchOf?: string;
+  seriesId?: string;
+  rematchOfferedBy?: string;
+  rematchGameId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One page of a game history search, with the total across all pages
+export interface GameSearchResult {
+  games: (Game & { opponent: User | null })[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
 export interface GameMove extends Document {
   _id: string;
   gameId: string;
@@ -120,11 +340,100 @@ export interface GameMove extends Document {
   createdAt: Date;
 }
 
+// How a move from a position has fared, as served to the opening explorer
+export interface ExplorerMoveStats {
+  move: string;
+  games: number;
+  whiteWins: number;
+  draws: number;
+  blackWins: number;
+  averageRating?: number;
+}
+
+export interface Friendship extends Document {
+  _id: string;
+  requesterId: string;
+  addresseeId: string;
+  status: 'pending' | 'accepted';
+  createdAt: Date;
+  acceptedAt?: Date;
+}
+
+// offline: no open connection; idle: connected but away from the page;
+// playing: connected with an active game
+export type PresenceStatus = 'online' | 'idle' | 'playing' | 'offline';
+
+export interface Friend {
+  friendshipId: string;
+  user: User;
+  status: PresenceStatus;
+  gameId?: string; // the game being played, when playing
+  since: Date;
+}
+
+// A pending request as seen by one of its two users
+export interface FriendRequest {
+  _id: string;
+  user: User; // the other user
+  direction: 'incoming' | 'outgoing';
+  createdAt: Date;
+}
+
+export type ChallengeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+export interface Challenge extends Document {
+  _id: string;
+  challengerId: string;
+  targetUserId?: string;
+  code?: string;
+  timeControl: number;
+  timeIncrement: number;
+  timeDelay: number;
+  color: 'white' | 'black' | 'random';
+  rated: boolean;
+  startFen?: string;
+  status: ChallengeStatus;
+  gameId?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  respondedAt?: Date;
+}
+
+// An active game on the watch page, as returned by /api/watch
+export interface LiveGame extends Pick<Game,
+  '_id' | 'status' | 'whitePlayerId' | 'blackPlayerId' | 'fen' | 'currentTurn' | 'moveCount' | 'timeControl' | 'timeIncrement' |
+  'timeDelay' | 'ratingCategory' | 'whiteTimeRemaining' | 'blackTimeRemaining' | 'lastMoveAt' | 'averageRating' |
+  'eco' | 'openingName' | 'createdAt'
+> {
+  whitePlayer: User | null;
+  blackPlayer: User | null;
+}
+
+export interface WatchList {
+  featured: LiveGame | null;
+  games: LiveGame[];
+}
+
+// A game and its chain of rematches, as returned by /api/games/:id/series
+export interface RematchSeries {
+  seriesId: string;
+  games: Pick<Game, '_id' | 'whitePlayerId' | 'blackPlayerId' | 'status' | 'result' | 'createdAt'>[];
+  scores: Record<string, number>; // points per player from the finished games
+}
+
+export interface ChallengeWithPlayers extends Challenge {
+  challenger: User;
+  target: User | null;
+}
+
+export type ChatChannel = 'players' | 'spectators';
+
 export interface ChatMessage extends Document {
   _id: string;
   gameId: string;
   playerId: string;
   message: string;
+  channel?: ChatChannel;
   createdAt: Date;
 }
 
@@ -132,8 +441,64 @@ export interface MatchmakingEntry extends Document {
   _id: string;
   playerId: string;
   timeControl: number;
+  timeIncrement: number;
+  timeDelay: number;
   ratingRange: number;
+  rating?: number;
+  createdAt: Date;
+}
+
+export interface RatingHistoryEntry extends Document {
+  _id: string;
+  userId: string;
+  gameId: string;
+  opponentId: string;
+  category: RatingCategory;
+  rating: number;
+  ratingChange: number;
+  overallRating: number;
+  overallRatingChange: number;
+  createdAt: Date;
+}
+
+export type BotStyle = 'aggressive' | 'positional' | 'defensive' | 'balanced';
+
+export interface BotProfile extends Document {
+  _id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  targetElo: number;
+  openingRepertoire: string[];
+  blunderRate: number;
+  style: BotStyle;
+  createdAt: Date;
+}
+
+export type AnalysisStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type MoveClassification = 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface AnalyzedMove {
+  ply: number;
+  move: string;
+  evaluation?: number;
+  bestMove?: string;
+  classification?: MoveClassification;
+}
+
+export interface GameAnalysis extends Document {
+  _id: string;
+  gameId: string;
+  status: AnalysisStatus;
+  engine?: string;
+  progress: number;
+  initialEvaluation?: number;
+  moves: AnalyzedMove[];
+  whiteAverageLoss?: number;
+  blackAverageLoss?: number;
+  error?: string;
   createdAt: Date;
+  completedAt?: Date;
 }
 
 // Zod Validation Schemas
@@ -150,13 +515,36 @@ export const insertGameSchema = z.object({
   blackPlayerId: z.string().optional(),
   status: z.string().optional(),
   result: z.string().optional(),
-  timeControl: z.number().optional(),
+  termination: z.string().optional(),
+  timeControl: z.number().int().positive().max(MAX_BASE_TIME).optional(),
+  timeIncrement: z.number().int().min(0).max(MAX_BONUS_TIME).optional(),
+  timeDelay: z.number().int().min(0).max(MAX_BONUS_TIME).optional(),
+  ratingCategory: z.enum(['bullet', 'blitz', 'rapid', 'classical']).optional(),
   whiteTimeRemaining: z.number().optional(),
   blackTimeRemaining: z.number().optional(),
+  lastMoveAt: z.date().optional(),
+  whiteRating: z.number().optional(),
+  blackRating: z.number().optional(),
+  whiteRatingChange: z.number().optional(),
+  blackRatingChange: z.number().optional(),
+  averageRating: z.number().optional(),
   currentTurn: z.string().optional(),
   moveCount: z.number().optional(),
   pgn: z.string().optional(),
   fen: z.string().optional(),
+  startFen: z.string().optional(),
+  imported: z.boolean().optional(),
+  ownerId: z.string().optional(),
+  whitePlayerName: z.string().optional(),
+  blackPlayerName: z.string().optional(),
+  event: z.string().optional(),
+  eco: z.string().optional(),
+  openingName: z.string().optional(),
+  explorerIndexed: z.boolean().optional(),
+  rated: z.boolean().optional(),
+  private: z.boolean().optional(),
+  rematchOf: z.string().optional(),
+  seriesId: z.string().optional(),
 });
 
 export const insertGameMoveSchema = z.object({
@@ -167,21 +555,186 @@ export const insertGameMoveSchema = z.object({
   timeRemaining: z.number().optional(),
 });
 
+// A finished game's opening moves, each with the position it was played from,
+// as added to the explorer totals overall and for each of playerIds
+export const insertExplorerGameSchema = z.object({
+  moves: z.array(z.object({ positionKey: z.string(), move: z.string() })),
+  playerIds: z.array(z.string()),
+  result: z.enum(['white_wins', 'black_wins', 'draw']),
+  averageRating: z.number().optional(),
+});
+
+export const insertFriendshipSchema = z.object({
+  requesterId: z.string(),
+  addresseeId: z.string(),
+});
+
+export const insertChallengeSchema = z.object({
+  challengerId: z.string(),
+  targetUserId: z.string().optional(),
+  code: z.string().optional(),
+  timeControl: z.number().int().positive().max(MAX_BASE_TIME).default(600),
+  timeIncrement: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  timeDelay: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  color: z.enum(['white', 'black', 'random']).default('random'),
+  rated: z.boolean().default(true),
+  startFen: z.string().trim().optional(), // the standard starting position if omitted or empty
+  expiresAt: z.date(),
+});
+
+// Body of POST /api/challenges; the rest is filled in by the server
+export const createChallengeSchema = insertChallengeSchema.omit({ challengerId: true, code: true, expiresAt: true });
+
 export const insertChatMessageSchema = z.object({
   gameId: z.string(),
   playerId: z.string(),
   message: z.string(),
+  channel: z.enum(['players', 'spectators']).optional(),
 });
 
 export const insertMatchmakingQueueSchema = z.object({
   playerId: z.string(),
-  timeControl: z.number().optional(),
+  timeControl: z.number().int().positive().max(MAX_BASE_TIME).optional(),
+  timeIncrement: z.number().int().min(0).max(MAX_BONUS_TIME).optional(),
+  timeDelay: z.number().int().min(0).max(MAX_BONUS_TIME).optional(),
   ratingRange: z.number().optional(),
 });
 
+// Body of POST /api/games. The rest of the game (players, ratings, library
+// and series fields) is only ever set by the server through insertGameSchema.
+export const createGameSchema = z.object({
+  timeControl: z.number().int().positive().max(MAX_BASE_TIME).default(600),
+  timeIncrement: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  timeDelay: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  rated: z.boolean().default(true),
+  private: z.boolean().default(false),
+  startFen: z.string().trim().optional(), // the standard starting position if omitted or empty
+});
+
+// Body of POST /api/games/bot
+export const createBotGameSchema = z.object({
+  botId: z.string().min(1),
+  timeControl: z.number().int().positive().max(MAX_BASE_TIME).default(600),
+  timeIncrement: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  timeDelay: z.number().int().min(0).max(MAX_BONUS_TIME).default(0),
+  playerColor: z.enum(['white', 'black']).default('white'),
+  startFen: z.string().trim().optional(), // the standard starting position if omitted or empty
+});
+
+export const insertRatingHistorySchema = z.object({
+  userId: z.string(),
+  gameId: z.string(),
+  opponentId: z.string(),
+  category: z.enum(['bullet', 'blitz', 'rapid', 'classical']),
+  rating: z.number(),
+  ratingChange: z.number(),
+  overallRating: z.number(),
+  overallRatingChange: z.number(),
+});
+
+export const insertBotProfileSchema = z.object({
+  userId: z.string().startsWith('bot_'),
+  name: z.string(),
+  description: z.string().optional(),
+  targetElo: z.number().min(100).max(3200),
+  openingRepertoire: z.array(z.string()).optional(),
+  blunderRate: z.number().min(0).max(1).optional(),
+  style: z.enum(['aggressive', 'positional', 'defensive', 'balanced']).optional(),
+});
+
+// Query string of a game history search. Results are from the searching
+// player's side; moves are full moves; dates are ISO timestamps.
+export const gameSearchSchema = z.object({
+  opponent: z.string().trim().min(1).optional(), // part of the opponent's name
+  color: z.enum(['white', 'black']).optional(),
+  result: z.enum(['win', 'loss', 'draw']).optional(),
+  timeControl: z.enum(['bullet', 'blitz', 'rapid', 'classical']).optional(),
+  rated: z.enum(['rated', 'casual']).optional(),
+  opening: z.string().trim().min(1).optional(), // opening family, as in getUserGames
+  termination: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minMoves: z.coerce.number().int().min(0).optional(),
+  maxMoves: z.coerce.number().int().min(0).optional(),
+  sort: z.enum(['date', 'moves']).default('date'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Query of GET /api/watch
+export const liveGamesSchema = z.object({
+  timeControl: z.enum(['bullet', 'blitz', 'rapid', 'classical']).optional(),
+  limit: z.coerce.number().int().min(1).max(60).default(30),
+});
+
+// Query of the board image routes; moves are written from-square to-square
+// ("e2e4") and arrows are a comma-separated list of them
+const boardMovePattern = /^[a-h][1-8][a-h][1-8]$/;
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export const boardImageSchema = z.object({
+  fen: z.string().trim().min(1).optional(), // the standard starting position if omitted
+  orientation: z.enum(['white', 'black']).default('white'),
+  lastMove: z.string().regex(boardMovePattern).optional(),
+  arrows: z.string().optional()
+    .transform(value => value ? value.split(',') : [])
+    .pipe(z.array(z.string().regex(boardMovePattern)).max(16)),
+  coordinates: booleanParam.default('true'),
+  size: z.coerce.number().int().min(64).max(1600).default(400), // PNG width in pixels
+});
+
+export const gameAnimationSchema = z.object({
+  orientation: z.enum(['white', 'black']).default('white'),
+  coordinates: booleanParam.default('true'),
+  size: z.coerce.number().int().min(64).max(800).default(360),
+  delay: z.coerce.number().int().min(100).max(5000).default(800), // milliseconds per move
+});
+
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type InsertGame = z.infer<typeof insertGameSchema>;
 export type InsertGameMove = z.infer<typeof insertGameMoveSchema>;
+export type InsertExplorerGame = z.infer<typeof insertExplorerGameSchema>;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type InsertFriendship = z.infer<typeof insertFriendshipSchema>;
+export type InsertChallenge = z.infer<typeof insertChallengeSchema>;
+export type CreateChallenge = z.infer<typeof createChallengeSchema>;
 export type InsertMatchmakingEntry = z.infer<typeof insertMatchmakingQueueSchema>;
+export type InsertRatingHistoryEntry = z.infer<typeof insertRatingHistorySchema>;
+export type InsertBotProfile = z.infer<typeof insertBotProfileSchema>;
+export type GameSearch = z.infer<typeof gameSearchSchema>;
+export type LiveGamesQuery = z.infer<typeof liveGamesSchema>;
+
+// Real-time game channel messages (see server/gameSocket.ts)
+export type GameEvent =
+  | { type: 'move'; gameId: string; move: GameMove; game: Game }
+  | { type: 'chat'; gameId: string; message: ChatMessage & { player: User } }
+  | { type: 'draw-offer'; gameId: string; playerId: string }
+  | { type: 'draw-declined'; gameId: string; playerId: string }
+  | { type: 'resign'; gameId: string; playerId: string; game: Game }
+  | { type: 'game-over'; gameId: string; game: Game }
+  | { type: 'rematch-offer'; gameId: string; playerId: string }
+  | { type: 'rematch-declined'; gameId: string; playerId: string }
+  | { type: 'rematch'; gameId: string; rematchGameId: string }
+  | { type: 'spectator-chat'; gameId: string; message: ChatMessage & { player: User } }
+  | { type: 'spectators'; gameId: string; count: number }
+  | { type: 'privacy'; gameId: string; private: boolean };
+
+export type GameClientMessage =
+  | { type: 'subscribe'; gameId: string }
+  | { type: 'unsubscribe'; gameId: string };
+
+// Presence channel messages (see server/presence.ts), each for one user: their
+// friends' status, and the '-changed' events when their friend requests or
+// challenges changed, so those lists should be fetched again
+export type PresenceEvent =
+  | { type: 'presence'; userId: string; status: PresenceStatus; gameId?: string }
+  | { type: 'friends-changed' }
+  | { type: 'challenges-changed' }
+  | { type: 'challenge-received'; challenge: ChallengeWithPlayers }
+  | { type: 'challenge-accepted'; challengeId: string; gameId: string };
+
+export type PresenceClientMessage =
+  | { type: 'idle' }
+  | { type: 'active' };
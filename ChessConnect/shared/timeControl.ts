@@ -0,0 +1,51 @@
+// Time controls are stored as a base time plus either a Fischer increment
+// (added after every move) or a Bronstein delay (time used is given back, up
+// to the delay). Written as "3+2" for increment and "15|10" for delay.
+
+export interface TimeControl {
+  timeControl: number; // base time in seconds
+  timeIncrement: number; // seconds added after each move
+  timeDelay: number; // Bronstein delay in seconds
+}
+
+export interface TimeControlPreset extends TimeControl {
+  label: string;
+  name: string;
+}
+
+// Upper bounds in seconds for games played here. They also keep a player's
+// remaining time well within what a flag-fall timer can wait for.
+export const MAX_BASE_TIME = 3 * 60 * 60;
+export const MAX_BONUS_TIME = 180;
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { label: "1+0", name: "Bullet", timeControl: 60, timeIncrement: 0, timeDelay: 0 },
+  { label: "3+2", name: "Blitz", timeControl: 180, timeIncrement: 2, timeDelay: 0 },
+  { label: "5+0", name: "Blitz", timeControl: 300, timeIncrement: 0, timeDelay: 0 },
+  { label: "10+0", name: "Rapid", timeControl: 600, timeIncrement: 0, timeDelay: 0 },
+  { label: "10+5", name: "Rapid", timeControl: 600, timeIncrement: 5, timeDelay: 0 },
+  { label: "15|10", name: "Rapid (delay)", timeControl: 900, timeIncrement: 0, timeDelay: 10 },
+  { label: "30+0", name: "Classical", timeControl: 1800, timeIncrement: 0, timeDelay: 0 },
+];
+
+export function formatTimeControl(timeControl = 600, timeIncrement = 0, timeDelay = 0): string {
+  const minutes = Number((timeControl / 60).toFixed(2));
+  if (timeDelay > 0) {
+    return `${minutes}|${timeDelay}`;
+  }
+  return `${minutes}+${timeIncrement}`;
+}
+
+export type RatingCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export const RATING_CATEGORIES: RatingCategory[] = ['bullet', 'blitz', 'rapid', 'classical'];
+
+// Classify by estimated game length: base time plus 40 moves' worth of
+// increment or delay, e.g. 3+2 is 180 + 80 = 260 seconds, which is blitz.
+export function getRatingCategory(timeControl = 600, timeIncrement = 0, timeDelay = 0): RatingCategory {
+  const estimated = timeControl + 40 * (timeIncrement + timeDelay);
+  if (estimated < 180) return 'bullet';
+  if (estimated < 480) return 'blitz';
+  if (estimated < 1500) return 'rapid';
+  return 'classical';
+}